@@ -135,7 +135,38 @@ function readHRDResponse(socket, timeout = 5000) {
   });
 }
 
-// Build ADIF record for HRD Logbook
+// Split a park list ("US-0001, US-0002" or "US-0001 US-0002") into references
+// Same rules as the app: location suffixes (e.g. "US-0001@US-ME") are dropped
+function parseParkList(parks) {
+  return (parks || '')
+    .split(/[,\s]+/)
+    .map(park => park.split('@')[0].trim().toUpperCase())
+    .filter(park => park.length > 0);
+}
+
+// Build ADIF records for HRD Logbook, one per park pair (like the app's ADIF export)
+// Each record has a key ("US-0001|US-0002") so a retry can skip records already logged
+function buildADIFRecords(qsoData) {
+  const theirParks = parseParkList(qsoData.parkReference);
+  const myParks = parseParkList(qsoData.myParkReference);
+
+  const records = [];
+  (theirParks.length > 0 ? theirParks : ['']).forEach(theirPark => {
+    (myParks.length > 0 ? myParks : ['']).forEach(myPark => {
+      records.push({
+        key: `${theirPark}|${myPark}`,
+        adif: buildADIFRecord({
+          ...qsoData,
+          parkReference: theirPark,
+          myParkReference: myPark,
+        }),
+      });
+    });
+  });
+  return records;
+}
+
+// Build ADIF record for HRD Logbook (a single park and my park)
 function buildADIFRecord(qsoData) {
   const {
     callsign,
@@ -145,16 +176,21 @@ function buildADIFRecord(qsoData) {
     rstReceived,
     comment,
     parkReference,
+    myParkReference,
+    gridSquare,
+    myGridSquare,
     myCallsign,
+    timestamp,  // QSO time (ISO 8601 UTC)
   } = qsoData;
 
-  // Get current UTC time
-  const now = new Date();
-  const dateStr = now.toISOString().slice(0, 10).replace(/-/g, '');  // YYYYMMDD
+  // Use the QSO time so queued QSOs keep their contact time, or now if it's missing
+  const qsoTime = timestamp ? new Date(timestamp) : null;
+  const time = qsoTime && !isNaN(qsoTime.getTime()) ? qsoTime : new Date();
+  const dateStr = time.toISOString().slice(0, 10).replace(/-/g, '');  // YYYYMMDD
   // TIME_ON needs to be HHMMSS format (6 digits)
-  const hours = now.getUTCHours().toString().padStart(2, '0');
-  const minutes = now.getUTCMinutes().toString().padStart(2, '0');
-  const seconds = now.getUTCSeconds().toString().padStart(2, '0');
+  const hours = time.getUTCHours().toString().padStart(2, '0');
+  const minutes = time.getUTCMinutes().toString().padStart(2, '0');
+  const seconds = time.getUTCSeconds().toString().padStart(2, '0');
   const timeStr = hours + minutes + seconds;
 
   // Convert frequency from kHz to MHz for ADIF
@@ -190,6 +226,20 @@ function buildADIFRecord(qsoData) {
     addField('SIG_INFO', parkReference);
   }
 
+  // Add my park for park-to-park contacts
+  if (myParkReference) {
+    addField('MY_SIG', 'POTA');
+    addField('MY_SIG_INFO', myParkReference);
+  }
+
+  // Add grid squares
+  if (gridSquare) {
+    addField('GRIDSQUARE', gridSquare);
+  }
+  if (myGridSquare) {
+    addField('MY_GRIDSQUARE', myGridSquare);
+  }
+
   // Add comment
   if (comment) {
     addField('COMMENT', comment);
@@ -365,27 +415,44 @@ const server = http.createServer(async (req, res) => {
     return;
   }
 
-  // Log QSO endpoint: POST /log { callsign, frequency, mode, rstSent, rstReceived, comment, parkReference }
+  // Log QSO endpoint: POST /log { callsign, frequency, mode, rstSent, rstReceived, comment, parkReference, myParkReference, gridSquare, myGridSquare, timestamp, deliveredRecords }
+  // deliveredRecords lists the record keys an earlier, partly failed request already logged;
+  // every response returns the keys logged so far so a retry only sends the rest
   if (req.url === '/log' && req.method === 'POST') {
     let body = '';
     req.on('data', chunk => body += chunk);
     req.on('end', async () => {
+      let deliveredRecords = [];
       try {
         const qsoData = JSON.parse(body);
 
         console.log(`[Request] Log QSO: ${qsoData.callsign} on ${qsoData.frequency} kHz ${qsoData.mode}`);
 
-        // Build ADIF record
-        const adifRecord = buildADIFRecord(qsoData);
+        // Build ADIF records (one per park for park-to-park contacts)
+        const adifRecords = buildADIFRecords(qsoData);
+        const alreadyDelivered = new Set(qsoData.deliveredRecords || []);
+        deliveredRecords = adifRecords
+          .map(record => record.key)
+          .filter(key => alreadyDelivered.has(key));
 
         // Send to HRD Logbook
-        await sendToHRDLogbook(adifRecord);
+        for (const record of adifRecords) {
+          if (alreadyDelivered.has(record.key)) {
+            console.log(`[Logbook] Skipping ${record.key}, already logged`);
+            continue;
+          }
+          await sendToHRDLogbook(record.adif);
+          deliveredRecords.push(record.key);
+        }
 
         res.writeHead(200, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({
           success: true,
-          message: `QSO logged: ${qsoData.callsign}`,
-          adif: adifRecord
+          message: adifRecords.length > 1
+            ? `QSO logged: ${qsoData.callsign} (${adifRecords.length} records)`
+            : `QSO logged: ${qsoData.callsign}`,
+          adif: adifRecords.map(record => record.adif).join('\n'),
+          deliveredRecords
         }));
 
       } catch (err) {
@@ -393,7 +460,8 @@ const server = http.createServer(async (req, res) => {
         res.writeHead(500, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({
           success: false,
-          message: err.message
+          message: err.message,
+          deliveredRecords
         }));
       }
     });
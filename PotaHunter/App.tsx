@@ -1,29 +1,56 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { ThemeProvider } from './src/context/ThemeContext';
-import { SettingsProvider } from './src/context/SettingsContext';
+import { SettingsProvider, useSettings } from './src/context/SettingsContext';
+import { useHRDOutbox } from './src/hooks/useHRDOutbox';
+import { startReSpotQueue } from './src/services/reSpotQueueService';
 import { SpotsListScreen } from './src/screens/SpotsListScreen';
 import { SettingsScreen } from './src/screens/SettingsScreen';
 import { InternalLogsScreen } from './src/screens/InternalLogsScreen';
+import { ActivationScreen } from './src/screens/ActivationScreen';
+import { ParkDetailsScreen } from './src/screens/ParkDetailsScreen';
 
-type Screen = 'spots' | 'settings' | 'logs';
+type Screen = 'spots' | 'settings' | 'logs' | 'activation' | 'park';
 
-export default function App() {
+function AppContent() {
   const [currentScreen, setCurrentScreen] = useState<Screen>('spots');
+  const [parkReference, setParkReference] = useState('');
+  const { hrdSettings } = useSettings();
+
+  // Retry queued HRD deliveries whichever screen is open
+  useHRDOutbox(hrdSettings);
 
+  // Send re-spots queued while offline when the network returns
+  useEffect(() => startReSpotQueue(), []);
+
+  return currentScreen === 'spots' ? (
+    <SpotsListScreen
+      onOpenSettings={() => setCurrentScreen('settings')}
+      onOpenActivation={() => setCurrentScreen('activation')}
+      onOpenPark={reference => {
+        setParkReference(reference);
+        setCurrentScreen('park');
+      }}
+    />
+  ) : currentScreen === 'park' ? (
+    <ParkDetailsScreen reference={parkReference} onBack={() => setCurrentScreen('spots')} />
+  ) : currentScreen === 'activation' ? (
+    <ActivationScreen onBack={() => setCurrentScreen('spots')} />
+  ) : currentScreen === 'settings' ? (
+    <SettingsScreen 
+      onBack={() => setCurrentScreen('spots')} 
+      onOpenLogs={() => setCurrentScreen('logs')}
+    />
+  ) : (
+    <InternalLogsScreen onBack={() => setCurrentScreen('settings')} />
+  );
+}
+
+export default function App() {
   return (
-    <ThemeProvider>
-      <SettingsProvider>
-        {currentScreen === 'spots' ? (
-          <SpotsListScreen onOpenSettings={() => setCurrentScreen('settings')} />
-        ) : currentScreen === 'settings' ? (
-          <SettingsScreen 
-            onBack={() => setCurrentScreen('spots')} 
-            onOpenLogs={() => setCurrentScreen('logs')}
-          />
-        ) : (
-          <InternalLogsScreen onBack={() => setCurrentScreen('settings')} />
-        )}
-      </SettingsProvider>
-    </ThemeProvider>
+    <SettingsProvider>
+      <ThemeProvider>
+        <AppContent />
+      </ThemeProvider>
+    </SettingsProvider>
   );
 }
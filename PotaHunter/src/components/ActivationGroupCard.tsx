@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { SpotWithUserData, formatFrequency, getTimeAgo } from '../types/spot';
+import { ActivationGroup } from '../services/spotGroupingService';
+import { SpotPath } from '../services/geodesyService';
+import { SpotCard } from './SpotCard';
+
+interface ActivationGroupCardProps {
+  group: ActivationGroup;
+  isHunted?: boolean;
+  path?: SpotPath | null;
+  onPress?: (spot: SpotWithUserData) => void;
+  onReSpot?: (spot: SpotWithUserData) => void;
+  onLog?: (spot: SpotWithUserData) => void;
+  onPressReference?: (spot: SpotWithUserData) => void;
+  isWatched?: boolean;
+  isFavoritePark?: boolean;
+  onToggleWatch?: (spot: SpotWithUserData) => void;
+  onToggleFavoritePark?: (spot: SpotWithUserData) => void;
+}
+
+export const ActivationGroupCard: React.FC<ActivationGroupCardProps> = ({
+  group,
+  isHunted = false,
+  path,
+  onPress,
+  onReSpot,
+  onLog,
+  onPressReference,
+  isWatched = false,
+  isFavoritePark = false,
+  onToggleWatch,
+  onToggleFavoritePark,
+}) => {
+  const { theme } = useTheme();
+  const [expanded, setExpanded] = useState(false);
+
+  const styles = StyleSheet.create({
+    summary: {
+      backgroundColor: theme.surfaceVariant,
+      borderRadius: 8,
+      padding: 10,
+      marginTop: 8,
+    },
+    summaryRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    countText: {
+      fontSize: 13,
+      color: theme.text,
+      fontWeight: '600',
+    },
+    expandText: {
+      fontSize: 13,
+      color: theme.primary,
+      fontWeight: '600',
+    },
+    sectionLabel: {
+      fontSize: 11,
+      color: theme.textSecondary,
+      textTransform: 'uppercase',
+      marginTop: 8,
+      marginBottom: 2,
+    },
+    historyText: {
+      fontSize: 13,
+      color: theme.text,
+    },
+    commentText: {
+      fontSize: 13,
+      color: theme.textSecondary,
+      fontStyle: 'italic',
+      marginTop: 2,
+    },
+    commentSpotter: {
+      fontStyle: 'normal',
+      fontWeight: '600',
+      color: theme.text,
+    },
+    spotRow: {
+      borderTopWidth: 1,
+      borderTopColor: theme.border,
+      paddingVertical: 6,
+    },
+    spotRowHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    spotRowText: {
+      fontSize: 13,
+      color: theme.text,
+    },
+    spotRowTime: {
+      fontSize: 12,
+      color: theme.textSecondary,
+    },
+  });
+
+  const hasHistory = group.frequencyHistory.length > 1;
+  const hasMultipleSpots = group.spots.length > 1;
+
+  return (
+    <SpotCard
+      spot={group.latest}
+      isHunted={isHunted}
+      path={path}
+      onPress={onPress}
+      onReSpot={onReSpot}
+      onLog={onLog}
+      onPressReference={onPressReference}
+      isWatched={isWatched}
+      isFavoritePark={isFavoritePark}
+      onToggleWatch={onToggleWatch}
+      onToggleFavoritePark={onToggleFavoritePark}
+    >
+      <View style={styles.summary}>
+        <View style={styles.summaryRow}>
+          <Text style={styles.countText}>
+            Spotted {group.count} time{group.count !== 1 ? 's' : ''}
+          </Text>
+          {hasMultipleSpots && (
+            <TouchableOpacity onPress={() => setExpanded(!expanded)}>
+              <Text style={styles.expandText}>
+                {expanded ? 'Hide spots ▲' : `Show ${group.spots.length} spots ▼`}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {hasHistory && (
+          <>
+            <Text style={styles.sectionLabel}>Frequency history</Text>
+            <Text style={styles.historyText}>
+              {group.frequencyHistory
+                .map(change => `${formatFrequency(change.frequency)} ${change.mode}`)
+                .join(' → ')}
+            </Text>
+          </>
+        )}
+
+        {group.comments.length > 0 && (
+          <>
+            <Text style={styles.sectionLabel}>Comments</Text>
+            {group.comments.map(comment => (
+              <Text key={comment.spotId} style={styles.commentText}>
+                <Text style={styles.commentSpotter}>{comment.spotter}: </Text>
+                {comment.comments}
+              </Text>
+            ))}
+          </>
+        )}
+
+        {expanded && (
+          <>
+            <Text style={styles.sectionLabel}>Spots</Text>
+            {group.spots.map(spot => (
+              <View key={spot.spotId} style={styles.spotRow}>
+                <View style={styles.spotRowHeader}>
+                  <Text style={styles.spotRowText}>
+                    {formatFrequency(spot.frequency)} {spot.mode} · {spot.spotter}
+                  </Text>
+                  <Text style={styles.spotRowTime}>{getTimeAgo(spot.spotTime)}</Text>
+                </View>
+                {spot.comments ? (
+                  <Text style={styles.commentText}>{spot.comments}</Text>
+                ) : null}
+              </View>
+            ))}
+          </>
+        )}
+      </View>
+    </SpotCard>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { SpotAlert } from '../services/alertService';
+import { formatFrequency } from '../types/spot';
+
+// How long the banner stays up before dismissing itself
+const AUTO_DISMISS_MS = 10000;
+
+interface AlertBannerProps {
+  alerts: SpotAlert[];
+  onDismiss: () => void;
+}
+
+export const AlertBanner: React.FC<AlertBannerProps> = ({ alerts, onDismiss }) => {
+  const { theme } = useTheme();
+
+  const latest = alerts[alerts.length - 1];
+
+  useEffect(() => {
+    if (!latest) {
+      return;
+    }
+    const timer = setTimeout(onDismiss, AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [latest]);
+
+  if (!latest) {
+    return null;
+  }
+
+  const styles = StyleSheet.create({
+    banner: {
+      backgroundColor: theme.secondary,
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+    },
+    icon: {
+      fontSize: 20,
+      marginRight: 12,
+    },
+    content: {
+      flex: 1,
+    },
+    ruleName: {
+      fontSize: 12,
+      color: theme.textOnPrimary,
+      opacity: 0.8,
+      fontWeight: '600',
+      textTransform: 'uppercase',
+    },
+    spotText: {
+      fontSize: 15,
+      color: theme.textOnPrimary,
+      fontWeight: 'bold',
+    },
+    moreText: {
+      fontSize: 12,
+      color: theme.textOnPrimary,
+      opacity: 0.8,
+    },
+    dismissText: {
+      fontSize: 18,
+      color: theme.textOnPrimary,
+      paddingLeft: 12,
+    },
+  });
+
+  const { spot, rule } = latest;
+
+  return (
+    <TouchableOpacity style={styles.banner} onPress={onDismiss} activeOpacity={0.8}>
+      <Text style={styles.icon}>🔔</Text>
+      <View style={styles.content}>
+        <Text style={styles.ruleName}>{rule.name}</Text>
+        <Text style={styles.spotText}>
+          {spot.activator} @ {spot.reference} · {formatFrequency(spot.frequency)} {spot.mode}
+        </Text>
+        {alerts.length > 1 && (
+          <Text style={styles.moreText}>+{alerts.length - 1} more alert{alerts.length > 2 ? 's' : ''}</Text>
+        )}
+      </View>
+      <Text style={styles.dismissText}>✕</Text>
+    </TouchableOpacity>
+  );
+};
@@ -8,32 +8,42 @@ import {
   FlatList,
   Pressable,
   Switch,
+  TextInput,
+  ScrollView,
+  Alert,
 } from 'react-native';
 import { useTheme } from '../context/ThemeContext';
+import { SPOT_SORT_LABELS, SpotSortMode } from '../services/spotSortService';
+import { FilterPreset, describeFilterPreset } from '../services/filterPresetService';
 
 interface FilterOption {
   label: string;
   value: string;
 }
 
-interface FilterDropdownProps {
+interface FilterDropdownShellProps {
   label: string;
-  value: string;
+  valueText: string;
+  isActive: boolean;
   options: FilterOption[];
-  onSelect: (value: string) => void;
+  isSelected: (value: string) => boolean;
+  onPressOption: (value: string) => void;
+  multiple?: boolean;  // Keep the list open with a Done button and tick selected options
 }
 
-const FilterDropdown: React.FC<FilterDropdownProps> = ({
+// Button and option list shared by the single and multi-select dropdowns
+const FilterDropdownShell: React.FC<FilterDropdownShellProps> = ({
   label,
-  value,
+  valueText,
+  isActive,
   options,
-  onSelect,
+  isSelected,
+  onPressOption,
+  multiple = false,
 }) => {
   const { theme } = useTheme();
   const [modalVisible, setModalVisible] = useState(false);
 
-  const selectedOption = options.find(opt => opt.value === value);
-
   const styles = StyleSheet.create({
     container: {
       flex: 1,
@@ -54,6 +64,9 @@ const FilterDropdown: React.FC<FilterDropdownProps> = ({
       borderColor: theme.primary,
       backgroundColor: theme.primaryLight + '20',
     },
+    buttonContent: {
+      flex: 1,
+    },
     labelText: {
       fontSize: 10,
       color: theme.textSecondary,
@@ -80,10 +93,13 @@ const FilterDropdown: React.FC<FilterDropdownProps> = ({
       backgroundColor: theme.surface,
       borderRadius: 12,
       width: '80%',
-      maxHeight: '60%',
+      maxHeight: multiple ? '70%' : '60%',
       overflow: 'hidden',
     },
     modalHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
       padding: 16,
       borderBottomWidth: 1,
       borderBottomColor: theme.border,
@@ -93,7 +109,15 @@ const FilterDropdown: React.FC<FilterDropdownProps> = ({
       fontWeight: '600',
       color: theme.text,
     },
+    doneText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: theme.primary,
+    },
     optionItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
       paddingHorizontal: 16,
       paddingVertical: 14,
       borderBottomWidth: 1,
@@ -110,10 +134,13 @@ const FilterDropdown: React.FC<FilterDropdownProps> = ({
       color: theme.primary,
       fontWeight: '600',
     },
+    checkText: {
+      fontSize: 16,
+      color: theme.primary,
+      fontWeight: '600',
+    },
   });
 
-  const isActive = value !== 'all';
-
   return (
     <View style={styles.container}>
       <TouchableOpacity
@@ -121,9 +148,9 @@ const FilterDropdown: React.FC<FilterDropdownProps> = ({
         onPress={() => setModalVisible(true)}
         activeOpacity={0.7}
       >
-        <View>
+        <View style={styles.buttonContent}>
           <Text style={styles.labelText}>{label}</Text>
-          <Text style={styles.valueText}>{selectedOption?.label || 'All'}</Text>
+          <Text style={styles.valueText} numberOfLines={1}>{valueText}</Text>
         </View>
         <Text style={styles.arrow}>▼</Text>
       </TouchableOpacity>
@@ -140,32 +167,35 @@ const FilterDropdown: React.FC<FilterDropdownProps> = ({
         >
           <Pressable style={styles.modalContent} onPress={e => e.stopPropagation()}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Select {label}</Text>
+              <Text style={styles.modalTitle}>Select {label}{multiple ? 's' : ''}</Text>
+              {multiple && (
+                <TouchableOpacity onPress={() => setModalVisible(false)}>
+                  <Text style={styles.doneText}>Done</Text>
+                </TouchableOpacity>
+              )}
             </View>
             <FlatList
               data={options}
               keyExtractor={item => item.value}
-              renderItem={({ item }) => (
-                <TouchableOpacity
-                  style={[
-                    styles.optionItem,
-                    item.value === value && styles.optionItemSelected,
-                  ]}
-                  onPress={() => {
-                    onSelect(item.value);
-                    setModalVisible(false);
-                  }}
-                >
-                  <Text
-                    style={[
-                      styles.optionText,
-                      item.value === value && styles.optionTextSelected,
-                    ]}
+              renderItem={({ item }) => {
+                const selected = isSelected(item.value);
+                return (
+                  <TouchableOpacity
+                    style={[styles.optionItem, selected && styles.optionItemSelected]}
+                    onPress={() => {
+                      onPressOption(item.value);
+                      if (!multiple) {
+                        setModalVisible(false);
+                      }
+                    }}
                   >
-                    {item.label}
-                  </Text>
-                </TouchableOpacity>
-              )}
+                    <Text style={[styles.optionText, selected && styles.optionTextSelected]}>
+                      {item.label}
+                    </Text>
+                    {multiple && selected && <Text style={styles.checkText}>✓</Text>}
+                  </TouchableOpacity>
+                );
+              }}
             />
           </Pressable>
         </Pressable>
@@ -174,9 +204,79 @@ const FilterDropdown: React.FC<FilterDropdownProps> = ({
   );
 };
 
+interface FilterDropdownProps {
+  label: string;
+  value: string;
+  options: FilterOption[];
+  onSelect: (value: string) => void;
+  defaultValue?: string;  // Value shown without the active highlight
+}
+
+const FilterDropdown: React.FC<FilterDropdownProps> = ({
+  label,
+  value,
+  options,
+  onSelect,
+  defaultValue = 'all',
+}) => {
+  const selectedOption = options.find(opt => opt.value === value);
+
+  return (
+    <FilterDropdownShell
+      label={label}
+      valueText={selectedOption?.label || 'All'}
+      isActive={value !== defaultValue}
+      options={options}
+      isSelected={optionValue => optionValue === value}
+      onPressOption={onSelect}
+    />
+  );
+};
+
+interface MultiFilterDropdownProps {
+  label: string;
+  allLabel: string;
+  values: string[];  // Empty means all
+  options: FilterOption[];
+  onChange: (values: string[]) => void;
+}
+
+// Dropdown where any number of options can be ticked; none ticked means all
+const MultiFilterDropdown: React.FC<MultiFilterDropdownProps> = ({
+  label,
+  allLabel,
+  values,
+  options,
+  onChange,
+}) => {
+  const toggle = (value: string) => {
+    if (value === 'all') {
+      onChange([]);
+      return;
+    }
+    onChange(
+      values.includes(value)
+        ? values.filter(v => v !== value)
+        // Keep the options' order so "40m+20m" reads the same however it was picked
+        : options.map(opt => opt.value).filter(v => v === value || values.includes(v))
+    );
+  };
+
+  return (
+    <FilterDropdownShell
+      label={label}
+      valueText={values.length > 0 ? values.join('+') : 'All'}
+      isActive={values.length > 0}
+      options={[{ label: allLabel, value: 'all' }, ...options]}
+      isSelected={value => (value === 'all' ? values.length === 0 : values.includes(value))}
+      onPressOption={toggle}
+      multiple
+    />
+  );
+};
+
 // Band options based on common amateur bands
 const BAND_OPTIONS: FilterOption[] = [
-  { label: 'All Bands', value: 'all' },
   { label: '160m', value: '160m' },
   { label: '80m', value: '80m' },
   { label: '60m', value: '60m' },
@@ -194,7 +294,6 @@ const BAND_OPTIONS: FilterOption[] = [
 
 // Mode options
 const MODE_OPTIONS: FilterOption[] = [
-  { label: 'All Modes', value: 'all' },
   { label: 'SSB', value: 'SSB' },
   { label: 'CW', value: 'CW' },
   { label: 'FT8', value: 'FT8' },
@@ -206,26 +305,92 @@ const MODE_OPTIONS: FilterOption[] = [
   { label: 'JS8', value: 'JS8' },
 ];
 
+// Maximum distance options (km), e.g. 1500 km for NVIS or skip-zone planning
+const DISTANCE_OPTIONS: FilterOption[] = [
+  { label: 'Any Distance', value: 'all' },
+  { label: '≤ 500 km', value: '500' },
+  { label: '≤ 1000 km', value: '1000' },
+  { label: '≤ 1500 km', value: '1500' },
+  { label: '≤ 3000 km', value: '3000' },
+  { label: '≤ 5000 km', value: '5000' },
+];
+
 interface FilterBarProps {
-  bandFilter: string;
-  modeFilter: string;
-  onBandChange: (band: string) => void;
-  onModeChange: (mode: string) => void;
+  searchQuery: string;
+  onSearchChange: (query: string) => void;
+  bandFilter: string[];  // Empty means all bands
+  modeFilter: string[];  // Empty means all modes
+  onBandChange: (bands: string[]) => void;
+  onModeChange: (modes: string[]) => void;
+  presets: FilterPreset[];
+  activePresetId: string | null;
+  onApplyPreset: (preset: FilterPreset | null) => void;  // null clears the active preset
+  onSavePreset: (name: string) => void;                   // Saves the current bands and modes
+  onDeletePreset: (preset: FilterPreset) => void;
+  showDistance: boolean;  // My location is set, so distances are available
+  distanceFilter: string;
+  onDistanceChange: (distance: string) => void;
+  sortMode: SpotSortMode;
+  onSortModeChange: (sortMode: SpotSortMode) => void;
   hideHunted: boolean;
   onHideHuntedChange: (hide: boolean) => void;
+  neededOnly: boolean;
+  onNeededOnlyChange: (neededOnly: boolean) => void;
+  groupByActivation: boolean;
+  onGroupByActivationChange: (group: boolean) => void;
   resultCount?: number;
 }
 
 export const FilterBar: React.FC<FilterBarProps> = ({
+  searchQuery,
+  onSearchChange,
   bandFilter,
   modeFilter,
   onBandChange,
   onModeChange,
+  presets,
+  activePresetId,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+  showDistance,
+  distanceFilter,
+  onDistanceChange,
+  sortMode,
+  onSortModeChange,
   hideHunted,
   onHideHuntedChange,
+  neededOnly,
+  onNeededOnlyChange,
+  groupByActivation,
+  onGroupByActivationChange,
   resultCount,
 }) => {
   const { theme } = useTheme();
+  const [saveModalVisible, setSaveModalVisible] = useState(false);
+  const [presetName, setPresetName] = useState('');
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) {
+      return;
+    }
+    onSavePreset(name);
+    setPresetName('');
+    setSaveModalVisible(false);
+  };
+
+  const handleDeletePreset = (preset: FilterPreset) => {
+    Alert.alert('Delete Preset', `Delete "${preset.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => onDeletePreset(preset) },
+    ]);
+  };
+
+  // Distance sorting needs my location
+  const sortOptions: FilterOption[] = (Object.keys(SPOT_SORT_LABELS) as SpotSortMode[])
+    .filter(mode => showDistance || mode !== 'distance')
+    .map(mode => ({ label: SPOT_SORT_LABELS[mode], value: mode }));
 
   const styles = StyleSheet.create({
     container: {
@@ -233,11 +398,116 @@ export const FilterBar: React.FC<FilterBarProps> = ({
       borderBottomWidth: 1,
       borderBottomColor: theme.border,
     },
+    searchRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginHorizontal: 16,
+      marginTop: 8,
+      backgroundColor: theme.surface,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+    },
+    searchInput: {
+      flex: 1,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      fontSize: 14,
+      color: theme.text,
+    },
+    clearButton: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+    },
+    clearText: {
+      fontSize: 14,
+      color: theme.textSecondary,
+    },
     filtersRow: {
       flexDirection: 'row',
       paddingHorizontal: 12,
       paddingVertical: 8,
     },
+    filtersRowSecond: {
+      paddingTop: 0,
+    },
+    presetsRow: {
+      paddingHorizontal: 12,
+      paddingBottom: 8,
+    },
+    presetChip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+      marginHorizontal: 4,
+      backgroundColor: theme.surface,
+      borderWidth: 1,
+      borderColor: theme.border,
+    },
+    presetChipActive: {
+      borderColor: theme.primary,
+      backgroundColor: theme.primaryLight + '30',
+    },
+    presetChipText: {
+      fontSize: 13,
+      color: theme.text,
+    },
+    presetChipTextActive: {
+      color: theme.primary,
+      fontWeight: '600',
+    },
+    saveChipText: {
+      fontSize: 13,
+      color: theme.primary,
+      fontWeight: '600',
+    },
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    modalContent: {
+      backgroundColor: theme.surface,
+      borderRadius: 12,
+      width: '80%',
+      padding: 16,
+    },
+    modalTitle: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: theme.text,
+      marginBottom: 4,
+    },
+    modalSubtitle: {
+      fontSize: 13,
+      color: theme.textSecondary,
+      marginBottom: 12,
+    },
+    modalInput: {
+      backgroundColor: theme.surfaceVariant,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 16,
+      color: theme.text,
+      marginBottom: 16,
+    },
+    modalButtons: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+    },
+    modalButtonText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: theme.primary,
+      marginLeft: 24,
+    },
+    modalButtonCancel: {
+      color: theme.textSecondary,
+    },
     hideHuntedRow: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -264,18 +534,78 @@ export const FilterBar: React.FC<FilterBarProps> = ({
 
   return (
     <View style={styles.container}>
+      <View style={styles.searchRow}>
+        <TextInput
+          style={styles.searchInput}
+          value={searchQuery}
+          onChangeText={onSearchChange}
+          placeholder="Search call, park, name, location, spotter..."
+          placeholderTextColor={theme.textSecondary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {searchQuery.length > 0 && (
+          <TouchableOpacity style={styles.clearButton} onPress={() => onSearchChange('')}>
+            <Text style={styles.clearText}>✕</Text>
+          </TouchableOpacity>
+        )}
+      </View>
       <View style={styles.filtersRow}>
-        <FilterDropdown
+        <MultiFilterDropdown
           label="Band"
-          value={bandFilter}
+          allLabel="All Bands"
+          values={bandFilter}
           options={BAND_OPTIONS}
-          onSelect={onBandChange}
+          onChange={onBandChange}
         />
-        <FilterDropdown
+        <MultiFilterDropdown
           label="Mode"
-          value={modeFilter}
+          allLabel="All Modes"
+          values={modeFilter}
           options={MODE_OPTIONS}
-          onSelect={onModeChange}
+          onChange={onModeChange}
+        />
+      </View>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.presetsRow}
+      >
+        {presets.map(preset => {
+          const active = preset.id === activePresetId;
+          return (
+            <TouchableOpacity
+              key={preset.id}
+              style={[styles.presetChip, active && styles.presetChipActive]}
+              onPress={() => onApplyPreset(active ? null : preset)}
+              onLongPress={() => handleDeletePreset(preset)}
+            >
+              <Text style={[styles.presetChipText, active && styles.presetChipTextActive]}>
+                {preset.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity style={styles.presetChip} onPress={() => setSaveModalVisible(true)}>
+          <Text style={styles.saveChipText}>+ Save Preset</Text>
+        </TouchableOpacity>
+      </ScrollView>
+      <View style={[styles.filtersRow, styles.filtersRowSecond]}>
+        {showDistance && (
+          <FilterDropdown
+            label="Distance"
+            value={distanceFilter}
+            options={DISTANCE_OPTIONS}
+            onSelect={onDistanceChange}
+          />
+        )}
+        <FilterDropdown
+          label="Sort"
+          value={sortMode}
+          options={sortOptions}
+          onSelect={value => onSortModeChange(value as SpotSortMode)}
+          defaultValue="newest"
         />
       </View>
       <View style={styles.hideHuntedRow}>
@@ -287,11 +617,68 @@ export const FilterBar: React.FC<FilterBarProps> = ({
           thumbColor={hideHunted ? theme.primary : theme.surfaceVariant}
         />
       </View>
-      {resultCount !== undefined && (bandFilter !== 'all' || modeFilter !== 'all' || hideHunted) && (
+      <View style={styles.hideHuntedRow}>
+        <Text style={styles.hideHuntedLabel}>Needed Only</Text>
+        <Switch
+          value={neededOnly}
+          onValueChange={onNeededOnlyChange}
+          trackColor={{ false: theme.border, true: theme.primaryLight }}
+          thumbColor={neededOnly ? theme.primary : theme.surfaceVariant}
+        />
+      </View>
+      <View style={styles.hideHuntedRow}>
+        <Text style={styles.hideHuntedLabel}>Group by Activation</Text>
+        <Switch
+          value={groupByActivation}
+          onValueChange={onGroupByActivationChange}
+          trackColor={{ false: theme.border, true: theme.primaryLight }}
+          thumbColor={groupByActivation ? theme.primary : theme.surfaceVariant}
+        />
+      </View>
+      {resultCount !== undefined && (
+        searchQuery.trim() !== '' ||
+        bandFilter.length > 0 ||
+        modeFilter.length > 0 ||
+        (showDistance && distanceFilter !== 'all') ||
+        hideHunted ||
+        neededOnly
+      ) && (
         <Text style={styles.resultCount}>
           Showing {resultCount} spot{resultCount !== 1 ? 's' : ''}
         </Text>
       )}
+      <Modal
+        visible={saveModalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setSaveModalVisible(false)}
+      >
+        <Pressable style={styles.modalOverlay} onPress={() => setSaveModalVisible(false)}>
+          <Pressable style={styles.modalContent} onPress={e => e.stopPropagation()}>
+            <Text style={styles.modalTitle}>Save Filter Preset</Text>
+            <Text style={styles.modalSubtitle}>
+              {describeFilterPreset({ bands: bandFilter, modes: modeFilter })}
+            </Text>
+            <TextInput
+              style={styles.modalInput}
+              value={presetName}
+              onChangeText={setPresetName}
+              placeholder="Evening CW"
+              placeholderTextColor={theme.textSecondary}
+              autoFocus
+              onSubmitEditing={handleSavePreset}
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity onPress={() => setSaveModalVisible(false)}>
+                <Text style={[styles.modalButtonText, styles.modalButtonCancel]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleSavePreset} disabled={!presetName.trim()}>
+                <Text style={styles.modalButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </Modal>
     </View>
   );
 };
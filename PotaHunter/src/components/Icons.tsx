@@ -131,3 +131,11 @@ export const ActivatorIcon: React.FC<IconProps> = ({ size = 24, color = '#000' }
     />
   </Svg>
 );
+
+// Compass/Bearing icon
+export const BearingIcon: React.FC<IconProps> = ({ size = 24, color = '#000' }) => (
+  <Svg width={size} height={size} viewBox="0 0 24 24" fill="none">
+    <Circle cx="12" cy="12" r="9" stroke={color} strokeWidth="2" fill="none" />
+    <Path d="M15.5 8.5l-2 5-5 2 2-5 5-2z" fill={color} />
+  </Svg>
+);
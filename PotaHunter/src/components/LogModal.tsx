@@ -12,69 +12,144 @@ import {
   Platform,
 } from 'react-native';
 import { useTheme } from '../context/ThemeContext';
-import { SpotWithUserData, formatFrequency, getBand } from '../types/spot';
+import {
+  SpotWithUserData,
+  formatFrequency,
+  getBand,
+  normalizeParkReferenceList,
+} from '../types/spot';
+import { InternalLogEntry } from '../services/internalLogService';
 
 export interface QSOData {
   callsign: string;
-  parkReference: string;
+  parkReference: string;      // Their park(s), comma-separated
+  myParkReference?: string;   // My park(s) for park-to-park contacts
   frequency: string;
   mode: string;
   rstSent: string;
   rstReceived: string;
   comment: string;
+  timestamp?: string; // ISO 8601, only set when editing an existing entry
 }
 
 interface LogModalProps {
   visible: boolean;
   spot: SpotWithUserData | null;
+  entry?: InternalLogEntry | null; // Existing log entry to edit (instead of logging a spot)
   stationCallsign: string;
+  defaultMyParkReference?: string; // Pre-filled when logging a spot (e.g. from an active activation)
   onClose: () => void;
   onSubmit: (qsoData: QSOData) => Promise<void>;
+  onCheckDuplicate?: (qsoData: QSOData) => Promise<InternalLogEntry | null>;
+  onValidate?: (qsoData: QSOData) => string[];
 }
 
 export const LogModal: React.FC<LogModalProps> = ({
   visible,
   spot,
+  entry,
   stationCallsign,
+  defaultMyParkReference = '',
   onClose,
   onSubmit,
+  onCheckDuplicate,
+  onValidate,
 }) => {
   const { theme } = useTheme();
 
   const [callsign, setCallsign] = useState('');
   const [parkReference, setParkReference] = useState('');
+  const [myParkReference, setMyParkReference] = useState('');
   const [frequency, setFrequency] = useState('');
   const [mode, setMode] = useState('');
   const [rstSent, setRstSent] = useState('59');
   const [rstReceived, setRstReceived] = useState('59');
   const [comment, setComment] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [duplicate, setDuplicate] = useState<InternalLogEntry | null>(null);
+  const [qsoDate, setQsoDate] = useState(''); // UTC YYYY-MM-DD (edit only)
+  const [qsoTime, setQsoTime] = useState(''); // UTC HH:MM:SS (edit only)
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const isEditing = Boolean(entry);
 
-  // Pre-fill from spot data when modal opens
+  // Pre-fill from the entry being edited, or from spot data, when modal opens
   useEffect(() => {
-    if (spot && visible) {
+    if (!visible) {
+      return;
+    }
+
+    setErrors([]);
+    setDuplicate(null);
+
+    if (entry) {
+      const [datePart, timePart = ''] = entry.timestamp.split('T');
+      setCallsign(entry.callsign);
+      setParkReference(entry.parkReference);
+      setMyParkReference(entry.myParkReference || '');
+      setFrequency(entry.frequency);
+      setMode(entry.mode);
+      setRstSent(entry.rstSent);
+      setRstReceived(entry.rstReceived);
+      setComment(entry.comment || '');
+      setQsoDate(datePart);
+      setQsoTime(timePart.slice(0, 8));
+    } else if (spot) {
       setCallsign(spot.activator);
       setParkReference(spot.reference);
+      setMyParkReference(defaultMyParkReference);
       setFrequency(spot.frequency);
       setMode(spot.mode);
       setRstSent('59');
       setRstReceived('59');
       setComment('');
     }
-  }, [spot, visible]);
+  }, [spot, entry, visible, defaultMyParkReference]);
+
+  // Editing the QSO invalidates a previous dupe warning
+  useEffect(() => {
+    setDuplicate(null);
+  }, [callsign, parkReference, frequency, mode]);
+
+  const handleSubmit = async (ignoreDuplicate = false) => {
+    const qsoData: QSOData = {
+      callsign: callsign.trim().toUpperCase(),
+      parkReference: normalizeParkReferenceList(parkReference),
+      myParkReference: normalizeParkReferenceList(myParkReference),
+      frequency: frequency.trim(),
+      mode: mode.trim().toUpperCase(),
+      rstSent: rstSent.trim(),
+      rstReceived: rstReceived.trim(),
+      comment,
+    };
+
+    if (isEditing) {
+      const time = qsoTime.trim().length === 5 ? `${qsoTime.trim()}:00` : qsoTime.trim();
+      const parsed = new Date(`${qsoDate.trim()}T${time}Z`);
+      if (isNaN(parsed.getTime())) {
+        setErrors(['Enter the date as YYYY-MM-DD and the time as HH:MM or HH:MM:SS (UTC)']);
+        return;
+      }
+      qsoData.timestamp = parsed.toISOString();
+    }
+
+    const validationErrors = onValidate ? onValidate(qsoData) : [];
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) {
+      return;
+    }
 
-  const handleSubmit = async () => {
     setIsSubmitting(true);
     try {
-      await onSubmit({
-        callsign,
-        parkReference,
-        frequency,
-        mode,
-        rstSent,
-        rstReceived,
-        comment,
-      });
+      if (!ignoreDuplicate && onCheckDuplicate) {
+        const previous = await onCheckDuplicate(qsoData);
+        if (previous) {
+          setDuplicate(previous);
+          return;
+        }
+      }
+
+      await onSubmit(qsoData);
       onClose();
     } catch (error) {
       console.error('Failed to log QSO:', error);
@@ -238,9 +313,41 @@ export const LogModal: React.FC<LogModalProps> = ({
       fontWeight: '600',
       color: theme.textOnPrimary,
     },
+    dupeWarning: {
+      backgroundColor: theme.warning + '30',
+      borderColor: theme.warning,
+      borderWidth: 1,
+      borderRadius: 8,
+      padding: 12,
+      marginHorizontal: 20,
+      marginTop: 12,
+    },
+    dupeTitle: {
+      fontSize: 14,
+      fontWeight: 'bold',
+      color: theme.text,
+      marginBottom: 4,
+    },
+    dupeText: {
+      fontSize: 13,
+      color: theme.text,
+    },
+    errorBox: {
+      backgroundColor: theme.error + '20',
+      borderColor: theme.error,
+    },
+    overrideButton: {
+      backgroundColor: theme.warning,
+      marginLeft: 10,
+    },
   });
 
-  const band = spot ? getBand(spot.frequency) : '';
+  const formatUTCTime = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return `${date.toISOString().split('T')[1].slice(0, 5)} UTC`;
+  };
+
+  const band = getBand(frequency);
 
   return (
     <Modal
@@ -255,8 +362,12 @@ export const LogModal: React.FC<LogModalProps> = ({
       >
         <View style={styles.modalContainer}>
           <View style={styles.header}>
-            <Text style={styles.headerTitle}>Log QSO</Text>
-            {spot && (
+            <Text style={styles.headerTitle}>{isEditing ? 'Edit QSO' : 'Log QSO'}</Text>
+            {isEditing ? (
+              entry?.parkName ? (
+                <Text style={styles.headerSubtitle}>{entry.parkName}</Text>
+              ) : null
+            ) : spot && (
               <Text style={styles.headerSubtitle}>
                 {spot.name}
               </Text>
@@ -288,6 +399,62 @@ export const LogModal: React.FC<LogModalProps> = ({
               </View>
             </View>
 
+            {/* Date/time, frequency and mode (editing only) */}
+            {isEditing && (
+              <>
+                <View style={[styles.inputGroup, styles.row]}>
+                  <View style={styles.halfInput}>
+                    <Text style={styles.label}>Date (UTC)</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={qsoDate}
+                      onChangeText={setQsoDate}
+                      placeholder="YYYY-MM-DD"
+                      placeholderTextColor={theme.textSecondary}
+                      autoCorrect={false}
+                    />
+                  </View>
+                  <View style={styles.halfInputLast}>
+                    <Text style={styles.label}>Time (UTC)</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={qsoTime}
+                      onChangeText={setQsoTime}
+                      placeholder="HH:MM:SS"
+                      placeholderTextColor={theme.textSecondary}
+                      autoCorrect={false}
+                    />
+                  </View>
+                </View>
+
+                <View style={[styles.inputGroup, styles.row]}>
+                  <View style={styles.halfInput}>
+                    <Text style={styles.label}>Frequency (kHz)</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={frequency}
+                      onChangeText={setFrequency}
+                      placeholder="14062"
+                      placeholderTextColor={theme.textSecondary}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                  <View style={styles.halfInputLast}>
+                    <Text style={styles.label}>Mode</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={mode}
+                      onChangeText={setMode}
+                      placeholder="CW"
+                      placeholderTextColor={theme.textSecondary}
+                      autoCapitalize="characters"
+                      autoCorrect={false}
+                    />
+                  </View>
+                </View>
+              </>
+            )}
+
             {/* Callsign */}
             <View style={styles.inputGroup}>
               <Text style={styles.label}>Callsign</Text>
@@ -304,7 +471,7 @@ export const LogModal: React.FC<LogModalProps> = ({
 
             {/* Park Reference */}
             <View style={styles.inputGroup}>
-              <Text style={styles.label}>Park Reference</Text>
+              <Text style={styles.label}>Park Reference(s)</Text>
               <TextInput
                 style={styles.input}
                 value={parkReference}
@@ -316,6 +483,20 @@ export const LogModal: React.FC<LogModalProps> = ({
               />
             </View>
 
+            {/* My Park(s) for park-to-park contacts */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>My Park(s) (P2P)</Text>
+              <TextInput
+                style={styles.input}
+                value={myParkReference}
+                onChangeText={setMyParkReference}
+                placeholder="Leave empty unless you're at a park"
+                placeholderTextColor={theme.textSecondary}
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+            </View>
+
             {/* RST Row */}
             <View style={[styles.inputGroup, styles.row]}>
               <View style={styles.halfInput}>
@@ -346,7 +527,7 @@ export const LogModal: React.FC<LogModalProps> = ({
 
             {/* Comment (for re-spot) */}
             <View style={styles.inputGroup}>
-              <Text style={styles.label}>Comment (for Re-Spot)</Text>
+              <Text style={styles.label}>{isEditing ? 'Comment' : 'Comment (for Re-Spot)'}</Text>
               <TextInput
                 style={[styles.input, styles.commentInput]}
                 value={comment}
@@ -359,6 +540,25 @@ export const LogModal: React.FC<LogModalProps> = ({
             </View>
           </ScrollView>
 
+          {errors.length > 0 && (
+            <View style={[styles.dupeWarning, styles.errorBox]}>
+              {errors.map(error => (
+                <Text key={error} style={styles.dupeText}>{error}</Text>
+              ))}
+            </View>
+          )}
+
+          {duplicate && (
+            <View style={styles.dupeWarning}>
+              <Text style={styles.dupeTitle}>Possible dupe</Text>
+              <Text style={styles.dupeText}>
+                {duplicate.callsign} at {duplicate.parkReference} was already logged on{' '}
+                {getBand(duplicate.frequency) || formatFrequency(duplicate.frequency)} {duplicate.mode} today
+                at {formatUTCTime(duplicate.timestamp)}.
+              </Text>
+            </View>
+          )}
+
           <View style={styles.footer}>
             <TouchableOpacity
               style={[styles.button, styles.cancelButton]}
@@ -370,16 +570,18 @@ export const LogModal: React.FC<LogModalProps> = ({
             <TouchableOpacity
               style={[
                 styles.button,
-                styles.submitButton,
+                duplicate ? styles.overrideButton : styles.submitButton,
                 isSubmitting && styles.submitButtonDisabled,
               ]}
-              onPress={handleSubmit}
+              onPress={() => handleSubmit(duplicate !== null)}
               disabled={isSubmitting || !callsign.trim()}
             >
               {isSubmitting ? (
                 <ActivityIndicator color={theme.textOnPrimary} />
               ) : (
-                <Text style={styles.submitText}>Log QSO</Text>
+                <Text style={styles.submitText}>
+                  {isEditing ? 'Save Changes' : duplicate ? 'Log Anyway' : 'Log QSO'}
+                </Text>
               )}
             </TouchableOpacity>
           </View>
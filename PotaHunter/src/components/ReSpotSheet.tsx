@@ -0,0 +1,412 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { SpotWithUserData, formatFrequency, isValidCallsign } from '../types/spot';
+import { fillSpotTemplate } from '../services/potaService';
+import { ReSpotResult } from '../services/reSpotQueueService';
+
+export interface ReSpotData {
+  frequency: string;
+  mode: string;
+  comments: string;
+}
+
+interface ReSpotSheetProps {
+  visible: boolean;
+  spot: SpotWithUserData | null;
+  spotterCallsign: string;
+  grid: string;
+  templates: string[];
+  onClose: () => void;
+  onSubmit: (data: ReSpotData) => Promise<ReSpotResult>;
+  onOpenSettings?: () => void;
+}
+
+export const ReSpotSheet: React.FC<ReSpotSheetProps> = ({
+  visible,
+  spot,
+  spotterCallsign,
+  grid,
+  templates,
+  onClose,
+  onSubmit,
+  onOpenSettings,
+}) => {
+  const { theme } = useTheme();
+
+  const [frequency, setFrequency] = useState('');
+  const [mode, setMode] = useState('');
+  const [comments, setComments] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<ReSpotResult | null>(null);
+
+  const callsignValid = isValidCallsign(spotterCallsign);
+
+  // Pre-fill from the spot when the sheet opens
+  useEffect(() => {
+    if (visible && spot) {
+      setFrequency(spot.frequency);
+      setMode(spot.mode);
+      setComments('');
+      setResult(null);
+    }
+  }, [spot, visible]);
+
+  const applyTemplate = (template: string) => {
+    if (!spot) {
+      return;
+    }
+    setComments(fillSpotTemplate(template, {
+      park: spot.reference,
+      call: spot.activator,
+      freq: frequency.trim(),
+      mode: mode.trim().toUpperCase(),
+      mycall: spotterCallsign.trim().toUpperCase(),
+      grid: grid.trim().toUpperCase(),
+    }));
+  };
+
+  const handleSubmit = async () => {
+    if (!callsignValid) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setResult(null);
+    try {
+      const response = await onSubmit({
+        frequency: frequency.trim(),
+        mode: mode.trim().toUpperCase(),
+        comments: comments.trim(),
+      });
+      setResult(response);
+    } catch (error) {
+      console.error('Failed to re-spot:', error);
+      setResult({
+        success: false,
+        message: `Re-spot error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'flex-end',
+    },
+    sheet: {
+      backgroundColor: theme.surface,
+      borderTopLeftRadius: 16,
+      borderTopRightRadius: 16,
+      maxHeight: '85%',
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: -4 },
+      shadowOpacity: 0.3,
+      shadowRadius: 8,
+      elevation: 8,
+    },
+    header: {
+      backgroundColor: theme.primary,
+      paddingVertical: 16,
+      paddingHorizontal: 20,
+      borderTopLeftRadius: 16,
+      borderTopRightRadius: 16,
+    },
+    headerTitle: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: theme.textOnPrimary,
+      textAlign: 'center',
+    },
+    headerSubtitle: {
+      fontSize: 14,
+      color: theme.textOnPrimary,
+      textAlign: 'center',
+      marginTop: 4,
+      opacity: 0.9,
+    },
+    content: {
+      padding: 20,
+    },
+    inputGroup: {
+      marginBottom: 16,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.text,
+      marginBottom: 6,
+    },
+    input: {
+      backgroundColor: theme.surfaceVariant,
+      borderRadius: 8,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 16,
+      color: theme.text,
+      borderWidth: 1,
+      borderColor: theme.border,
+    },
+    row: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    halfInput: {
+      flex: 1,
+      marginRight: 8,
+    },
+    halfInputLast: {
+      flex: 1,
+      marginLeft: 8,
+    },
+    commentInput: {
+      minHeight: 70,
+      textAlignVertical: 'top',
+    },
+    templateList: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginBottom: 8,
+    },
+    templateChip: {
+      backgroundColor: theme.surfaceVariant,
+      borderWidth: 1,
+      borderColor: theme.primary,
+      borderRadius: 16,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      marginRight: 8,
+      marginBottom: 8,
+    },
+    templateText: {
+      fontSize: 13,
+      color: theme.primary,
+    },
+    hint: {
+      fontSize: 12,
+      color: theme.textSecondary,
+    },
+    messageBox: {
+      borderWidth: 1,
+      borderRadius: 8,
+      padding: 12,
+      marginHorizontal: 20,
+      marginTop: 12,
+    },
+    messageTitle: {
+      fontSize: 14,
+      fontWeight: 'bold',
+      color: theme.text,
+      marginBottom: 4,
+    },
+    messageText: {
+      fontSize: 13,
+      color: theme.text,
+    },
+    linkText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.primary,
+      marginTop: 6,
+    },
+    footer: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingHorizontal: 20,
+      paddingVertical: 16,
+      borderTopWidth: 1,
+      borderTopColor: theme.border,
+    },
+    button: {
+      flex: 1,
+      paddingVertical: 14,
+      borderRadius: 8,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    cancelButton: {
+      backgroundColor: theme.surfaceVariant,
+      marginRight: 10,
+    },
+    submitButton: {
+      backgroundColor: theme.primary,
+      marginLeft: 10,
+    },
+    submitButtonDisabled: {
+      opacity: 0.6,
+    },
+    cancelText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    submitText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: theme.textOnPrimary,
+    },
+  });
+
+  const resultColor = result?.queued || result?.cooldownRemainingMs
+    ? theme.warning
+    : result?.success
+      ? theme.success
+      : theme.error;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.headerTitle}>
+              Re-Spot {spot?.activator}
+            </Text>
+            {spot && (
+              <Text style={styles.headerSubtitle}>
+                {spot.reference} · {spot.name}
+              </Text>
+            )}
+          </View>
+
+          <ScrollView style={styles.content}>
+            <View style={[styles.inputGroup, styles.row]}>
+              <View style={styles.halfInput}>
+                <Text style={styles.label}>Frequency (kHz)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={frequency}
+                  onChangeText={setFrequency}
+                  placeholder="14062"
+                  placeholderTextColor={theme.textSecondary}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <View style={styles.halfInputLast}>
+                <Text style={styles.label}>Mode</Text>
+                <TextInput
+                  style={styles.input}
+                  value={mode}
+                  onChangeText={setMode}
+                  placeholder="CW"
+                  placeholderTextColor={theme.textSecondary}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+              </View>
+            </View>
+
+            {templates.length > 0 && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Templates</Text>
+                <View style={styles.templateList}>
+                  {templates.map(template => (
+                    <TouchableOpacity
+                      key={template}
+                      style={styles.templateChip}
+                      onPress={() => applyTemplate(template)}
+                    >
+                      <Text style={styles.templateText}>{template}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <Text style={styles.hint}>Tap a template to fill the comment, then edit as needed</Text>
+              </View>
+            )}
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Comment</Text>
+              <TextInput
+                style={[styles.input, styles.commentInput]}
+                value={comments}
+                onChangeText={setComments}
+                placeholder="Optional comment..."
+                placeholderTextColor={theme.textSecondary}
+                multiline
+                numberOfLines={3}
+              />
+            </View>
+          </ScrollView>
+
+          {!callsignValid && (
+            <View style={[styles.messageBox, { borderColor: theme.error, backgroundColor: theme.error + '20' }]}>
+              <Text style={styles.messageText}>
+                {spotterCallsign.trim()
+                  ? `"${spotterCallsign.trim()}" is not a valid callsign.`
+                  : 'Set your callsign before re-spotting.'}
+              </Text>
+              {onOpenSettings && (
+                <TouchableOpacity onPress={onOpenSettings}>
+                  <Text style={styles.linkText}>Open Settings</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {result && (
+            <View style={[styles.messageBox, { borderColor: resultColor, backgroundColor: resultColor + '20' }]}>
+              <Text style={styles.messageTitle}>
+                {result.queued
+                  ? 'Spot queued'
+                  : result.success
+                    ? 'Spot submitted'
+                    : result.cooldownRemainingMs
+                      ? 'Recently spotted'
+                      : 'Spot failed'}
+              </Text>
+              <Text style={styles.messageText}>{result.message}</Text>
+            </View>
+          )}
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={onClose}
+              disabled={isSubmitting}
+            >
+              <Text style={styles.cancelText}>{result?.success ? 'Done' : 'Cancel'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                styles.submitButton,
+                (isSubmitting || !callsignValid) && styles.submitButtonDisabled,
+              ]}
+              onPress={handleSubmit}
+              disabled={isSubmitting || !callsignValid || !frequency.trim() || !mode.trim()}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator color={theme.textOnPrimary} />
+              ) : (
+                <Text style={styles.submitText}>
+                  Spot {formatFrequency(frequency)}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
@@ -7,7 +7,8 @@ import {
   Pressable,
 } from 'react-native';
 import { useTheme } from '../context/ThemeContext';
-import { SpotWithUserData, formatFrequency, getBand, getTimeAgo } from '../types/spot';
+import { NeededStatus, SpotWithUserData, formatFrequency, getBand, getTimeAgo } from '../types/spot';
+import { SpotPath, formatSpotPath } from '../services/geodesyService';
 import {
   HuntedIcon,
   NotHuntedIcon,
@@ -16,19 +17,54 @@ import {
   SpotterIcon,
   TimeIcon,
   CommentIcon,
+  BearingIcon,
 } from './Icons';
 
 interface SpotCardProps {
   spot: SpotWithUserData;
   isHunted?: boolean;
+  path?: SpotPath | null;  // Distance and bearing from my location
   onPress?: (spot: SpotWithUserData) => void;
   onReSpot?: (spot: SpotWithUserData) => void;
   onLog?: (spot: SpotWithUserData) => void;
+  onPressReference?: (spot: SpotWithUserData) => void;
+  isWatched?: boolean;       // Activator is on the watchlist
+  isFavoritePark?: boolean;
+  onToggleWatch?: (spot: SpotWithUserData) => void;
+  onToggleFavoritePark?: (spot: SpotWithUserData) => void;
+  children?: React.ReactNode; // Extra content shown above the footer
 }
 
-export const SpotCard: React.FC<SpotCardProps> = ({ spot, isHunted = false, onPress, onReSpot, onLog }) => {
+const NEEDED_LABELS: Record<NeededStatus, string> = {
+  'new-park': 'NEW PARK',
+  'new-band': 'NEW BAND',
+  'new-mode': 'NEW MODE',
+  'worked': 'WORKED',
+};
+
+export const SpotCard: React.FC<SpotCardProps> = ({
+  spot,
+  isHunted = false,
+  path,
+  onPress,
+  onReSpot,
+  onLog,
+  onPressReference,
+  isWatched = false,
+  isFavoritePark = false,
+  onToggleWatch,
+  onToggleFavoritePark,
+  children,
+}) => {
   const { theme } = useTheme();
 
+  const neededColors: Record<NeededStatus, string> = {
+    'new-park': theme.success,
+    'new-band': theme.primary,
+    'new-mode': theme.warning,
+    'worked': theme.notHunted,
+  };
+
   const styles = StyleSheet.create({
     card: {
       backgroundColor: theme.surface,
@@ -42,9 +78,16 @@ export const SpotCard: React.FC<SpotCardProps> = ({ spot, isHunted = false, onPr
       shadowRadius: 4,
       elevation: 3,
       borderLeftWidth: 4,
-      borderLeftColor: isHunted ? theme.hunted : (spot.isHunted ? theme.hunted : theme.primary),
+      borderLeftColor: isWatched
+        ? theme.warning
+        : isHunted ? theme.hunted : (spot.isHunted ? theme.hunted : theme.primary),
       opacity: isHunted ? 0.7 : 1,
     },
+    cardWatched: {
+      borderWidth: 1,
+      borderColor: theme.warning,
+      borderLeftWidth: 4,
+    },
     header: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -56,16 +99,51 @@ export const SpotCard: React.FC<SpotCardProps> = ({ spot, isHunted = false, onPr
     callsignContainer: {
       flex: 1,
     },
+    callsignRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
     callsign: {
       fontSize: 20,
       fontWeight: 'bold',
       color: theme.text,
     },
+    star: {
+      fontSize: 18,
+      color: theme.textSecondary,
+      marginLeft: 6,
+    },
+    starSmall: {
+      fontSize: 14,
+    },
+    starActive: {
+      color: theme.warning,
+    },
     reference: {
       fontSize: 14,
       color: theme.primary,
       fontWeight: '600',
     },
+    referenceLink: {
+      textDecorationLine: 'underline',
+    },
+    referenceRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    neededBadge: {
+      backgroundColor: neededColors[spot.neededStatus],
+      paddingHorizontal: 6,
+      paddingVertical: 1,
+      borderRadius: 6,
+      marginLeft: 8,
+    },
+    neededText: {
+      color: theme.textOnPrimary,
+      fontSize: 10,
+      fontWeight: '700',
+      letterSpacing: 0.5,
+    },
     modeBadge: {
       backgroundColor: theme.primaryLight,
       paddingHorizontal: 10,
@@ -144,6 +222,18 @@ export const SpotCard: React.FC<SpotCardProps> = ({ spot, isHunted = false, onPr
       color: theme.textSecondary,
       marginLeft: 6,
     },
+    updateBadge: {
+      backgroundColor: spot.updateStatus === 'new' ? theme.success : theme.warning,
+      paddingHorizontal: 6,
+      paddingVertical: 1,
+      borderRadius: 6,
+      marginLeft: 8,
+    },
+    updateText: {
+      color: theme.textOnPrimary,
+      fontSize: 10,
+      fontWeight: '700',
+    },
     buttonContainer: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -202,7 +292,7 @@ export const SpotCard: React.FC<SpotCardProps> = ({ spot, isHunted = false, onPr
 
   return (
     <Pressable
-      style={styles.card}
+      style={[styles.card, isWatched && styles.cardWatched]}
       onPress={() => onPress?.(spot)}
       android_ripple={{ color: theme.primaryLight }}
     >
@@ -223,8 +313,43 @@ export const SpotCard: React.FC<SpotCardProps> = ({ spot, isHunted = false, onPr
           )}
         </View>
         <View style={styles.callsignContainer}>
-          <Text style={styles.callsign}>{spot.activator}</Text>
-          <Text style={styles.reference}>{spot.reference}</Text>
+          <View style={styles.callsignRow}>
+            <Text style={styles.callsign}>{spot.activator}</Text>
+            {onToggleWatch && (
+              <TouchableOpacity
+                onPress={() => onToggleWatch(spot)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <Text style={[styles.star, isWatched && styles.starActive]}>
+                  {isWatched ? '★' : '☆'}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <View style={styles.referenceRow}>
+            <TouchableOpacity
+              onPress={() => onPressReference?.(spot)}
+              disabled={!onPressReference}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Text style={[styles.reference, onPressReference && styles.referenceLink]}>
+                {spot.reference}
+              </Text>
+            </TouchableOpacity>
+            {onToggleFavoritePark && (
+              <TouchableOpacity
+                onPress={() => onToggleFavoritePark(spot)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <Text style={[styles.star, styles.starSmall, isFavoritePark && styles.starActive]}>
+                  {isFavoritePark ? '★' : '☆'}
+                </Text>
+              </TouchableOpacity>
+            )}
+            <View style={styles.neededBadge}>
+              <Text style={styles.neededText}>{NEEDED_LABELS[spot.neededStatus]}</Text>
+            </View>
+          </View>
         </View>
         <View style={styles.modeBadge}>
           <Text style={styles.modeText}>{spot.mode}</Text>
@@ -244,6 +369,16 @@ export const SpotCard: React.FC<SpotCardProps> = ({ spot, isHunted = false, onPr
         <Text style={styles.infoText}>{spot.locationDesc}</Text>
       </View>
 
+      {/* Distance and bearing */}
+      {path && (
+        <View style={styles.infoRow}>
+          <View style={styles.infoIcon}>
+            <BearingIcon size={18} color={theme.textSecondary} />
+          </View>
+          <Text style={styles.infoText}>{formatSpotPath(path)}</Text>
+        </View>
+      )}
+
       {/* Frequency */}
       <View style={styles.infoRow}>
         <View style={styles.infoIcon}>
@@ -272,11 +407,20 @@ export const SpotCard: React.FC<SpotCardProps> = ({ spot, isHunted = false, onPr
         </View>
       )}
 
+      {children}
+
       {/* Footer: Time and action buttons */}
       <View style={styles.footer}>
         <View style={styles.timeContainer}>
           <TimeIcon size={16} color={theme.textSecondary} />
           <Text style={styles.timeText}>{timeAgo}</Text>
+          {spot.updateStatus && (
+            <View style={styles.updateBadge}>
+              <Text style={styles.updateText}>
+                {spot.updateStatus === 'new' ? 'NEW' : 'UPDATED'}
+              </Text>
+            </View>
+          )}
         </View>
         <View style={styles.buttonContainer}>
           <TouchableOpacity
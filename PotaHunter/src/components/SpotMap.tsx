@@ -0,0 +1,322 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, G, Line, Rect, Text as SvgText } from 'react-native-svg';
+import { useTheme } from '../context/ThemeContext';
+import { SpotWithUserData, getBand } from '../types/spot';
+import { LatLon, getSpotLocation } from '../services/geodesyService';
+
+/**
+ * Offline map of spots
+ *
+ * Spots are drawn on a latitude/longitude graticule with an equirectangular
+ * projection (longitude scaled by the cosine of the center latitude), so
+ * no tile server or network access is needed.
+ */
+
+type MapExtent = 'spots' | 'world';
+
+interface Bounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+const WORLD_BOUNDS: Bounds = { south: -60, west: -180, north: 80, east: 180 };
+
+// Smallest area (degrees) the map zooms to when fitting spots
+const MIN_SPAN_DEGREES = 10;
+
+// Markers within this many pixels of a tap are hit
+const MARKER_RADIUS = 7;
+const MARKER_HIT_RADIUS = 16;
+
+interface PlacedSpot {
+  spot: SpotWithUserData;
+  location: LatLon;
+  needed: boolean;
+}
+
+// Graticule spacing for a span in degrees
+const getGridStep = (span: number): number =>
+  span > 120 ? 30 : span > 60 ? 15 : span > 25 ? 10 : span > 10 ? 5 : 2;
+
+// Bounds around the given locations, padded and never smaller than MIN_SPAN_DEGREES
+const fitBounds = (locations: LatLon[]): Bounds => {
+  if (locations.length === 0) {
+    return WORLD_BOUNDS;
+  }
+
+  let south = Math.min(...locations.map(loc => loc.latitude));
+  let north = Math.max(...locations.map(loc => loc.latitude));
+  let west = Math.min(...locations.map(loc => loc.longitude));
+  let east = Math.max(...locations.map(loc => loc.longitude));
+
+  const latPad = Math.max((north - south) * 0.1, (MIN_SPAN_DEGREES - (north - south)) / 2, 1);
+  const lonPad = Math.max((east - west) * 0.1, (MIN_SPAN_DEGREES - (east - west)) / 2, 1);
+  south = Math.max(south - latPad, -90);
+  north = Math.min(north + latPad, 90);
+  west = Math.max(west - lonPad, -180);
+  east = Math.min(east + lonPad, 180);
+
+  return { south, west, north, east };
+};
+
+// Widen bounds so degrees map to the view without stretching
+const fitAspect = (bounds: Bounds, width: number, height: number): Bounds => {
+  const midLat = (bounds.south + bounds.north) / 2;
+  const lonScale = Math.max(Math.cos((midLat * Math.PI) / 180), 0.2);
+  const lonSpan = (bounds.east - bounds.west) * lonScale;
+  const latSpan = bounds.north - bounds.south;
+
+  if (lonSpan / latSpan > width / height) {
+    const newLatSpan = (lonSpan * height) / width;
+    const extra = (newLatSpan - latSpan) / 2;
+    return { ...bounds, south: bounds.south - extra, north: bounds.north + extra };
+  }
+  const newLonSpan = (latSpan * width) / height / lonScale;
+  const extra = (newLonSpan - (bounds.east - bounds.west)) / 2;
+  return { ...bounds, west: bounds.west - extra, east: bounds.east + extra };
+};
+
+interface SpotMapProps {
+  spots: SpotWithUserData[];
+  huntedSpotIds: Set<number>;
+  myLocation: LatLon | null;
+  selectedSpotId: number | null;
+  onSelectSpot: (spot: SpotWithUserData | null) => void;
+}
+
+export const SpotMap: React.FC<SpotMapProps> = ({
+  spots,
+  huntedSpotIds,
+  myLocation,
+  selectedSpotId,
+  onSelectSpot,
+}) => {
+  const { theme } = useTheme();
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [extent, setExtent] = useState<MapExtent>('spots');
+
+  const placed = useMemo(() => {
+    const result: PlacedSpot[] = [];
+    spots.forEach(spot => {
+      const location = getSpotLocation(spot);
+      if (location) {
+        result.push({
+          spot,
+          location,
+          needed: spot.neededStatus !== 'worked' && !huntedSpotIds.has(spot.spotId),
+        });
+      }
+    });
+    // Draw needed spots last so they sit on top of worked ones
+    return result.sort((a, b) => Number(a.needed) - Number(b.needed));
+  }, [spots, huntedSpotIds]);
+
+  const bounds = useMemo(() => {
+    if (size.width === 0 || size.height === 0) {
+      return WORLD_BOUNDS;
+    }
+    const base = extent === 'world'
+      ? WORLD_BOUNDS
+      : fitBounds([
+        ...placed.map(item => item.location),
+        ...(myLocation ? [myLocation] : []),
+      ]);
+    return fitAspect(base, size.width, size.height);
+  }, [extent, placed, myLocation, size]);
+
+  const project = (location: LatLon) => ({
+    x: ((location.longitude - bounds.west) / (bounds.east - bounds.west)) * size.width,
+    y: ((bounds.north - location.latitude) / (bounds.north - bounds.south)) * size.height,
+  });
+
+  const bandsShown = useMemo(() => {
+    const bands = new Set(placed.map(item => getBand(item.spot.frequency)).filter(Boolean));
+    return Object.keys(theme.bandColors).filter(band => bands.has(band));
+  }, [placed, theme]);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.surfaceVariant,
+    },
+    controls: {
+      position: 'absolute',
+      top: 8,
+      right: 8,
+      flexDirection: 'row',
+    },
+    controlButton: {
+      backgroundColor: theme.surface,
+      borderWidth: 1,
+      borderColor: theme.border,
+      borderRadius: 16,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      marginLeft: 6,
+    },
+    controlButtonActive: {
+      borderColor: theme.primary,
+    },
+    controlText: {
+      fontSize: 12,
+      color: theme.text,
+      fontWeight: '600',
+    },
+    legend: {
+      position: 'absolute',
+      left: 8,
+      bottom: 8,
+      backgroundColor: theme.surface + 'E6',
+      borderRadius: 8,
+      padding: 8,
+      maxWidth: '70%',
+    },
+    legendRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      alignItems: 'center',
+    },
+    legendItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginRight: 8,
+      marginBottom: 2,
+    },
+    legendSwatch: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+      marginRight: 4,
+    },
+    legendText: {
+      fontSize: 11,
+      color: theme.text,
+    },
+    emptyText: {
+      position: 'absolute',
+      top: 48,
+      left: 0,
+      right: 0,
+      textAlign: 'center',
+      color: theme.textSecondary,
+      fontSize: 14,
+    },
+  });
+
+  const renderGraticule = () => {
+    const step = getGridStep(bounds.north - bounds.south);
+    const lines: React.ReactNode[] = [];
+
+    for (let lat = Math.ceil(Math.max(bounds.south, -90) / step) * step; lat <= Math.min(bounds.north, 90); lat += step) {
+      const { y } = project({ latitude: lat, longitude: bounds.west });
+      lines.push(
+        <G key={`lat${lat}`}>
+          <Line x1={0} y1={y} x2={size.width} y2={y} stroke={theme.border} strokeWidth={lat === 0 ? 1.5 : 1} />
+          <SvgText x={4} y={y - 2} fontSize={9} fill={theme.textSecondary}>
+            {`${Math.abs(lat)}°${lat > 0 ? 'N' : lat < 0 ? 'S' : ''}`}
+          </SvgText>
+        </G>
+      );
+    }
+    for (let lon = Math.ceil(Math.max(bounds.west, -180) / step) * step; lon <= Math.min(bounds.east, 180); lon += step) {
+      const { x } = project({ latitude: bounds.south, longitude: lon });
+      lines.push(
+        <G key={`lon${lon}`}>
+          <Line x1={x} y1={0} x2={x} y2={size.height} stroke={theme.border} strokeWidth={lon === 0 ? 1.5 : 1} />
+          <SvgText x={x + 2} y={size.height - 4} fontSize={9} fill={theme.textSecondary}>
+            {`${Math.abs(lon)}°${lon > 0 ? 'E' : lon < 0 ? 'W' : ''}`}
+          </SvgText>
+        </G>
+      );
+    }
+    return lines;
+  };
+
+  return (
+    <View style={styles.container} onLayout={handleLayout}>
+      {size.width > 0 && (
+        <Svg width={size.width} height={size.height}>
+          {/* Tapping the background clears the selection */}
+          <Rect
+            x={0}
+            y={0}
+            width={size.width}
+            height={size.height}
+            fill={theme.background}
+            onPress={() => onSelectSpot(null)}
+          />
+          {renderGraticule()}
+
+          {myLocation && (() => {
+            const { x, y } = project(myLocation);
+            return (
+              <G>
+                <Line x1={x - 8} y1={y} x2={x + 8} y2={y} stroke={theme.text} strokeWidth={2} />
+                <Line x1={x} y1={y - 8} x2={x} y2={y + 8} stroke={theme.text} strokeWidth={2} />
+              </G>
+            );
+          })()}
+
+          {placed.map(({ spot, location, needed }) => {
+            const { x, y } = project(location);
+            const color = theme.bandColors[getBand(spot.frequency)] ?? theme.textSecondary;
+            const selected = spot.spotId === selectedSpotId;
+            return (
+              <G key={spot.spotId} onPress={() => onSelectSpot(spot)}>
+                <Circle cx={x} cy={y} r={MARKER_HIT_RADIUS} fill="transparent" />
+                {selected && (
+                  <Circle cx={x} cy={y} r={MARKER_RADIUS + 5} fill="none" stroke={theme.primary} strokeWidth={3} />
+                )}
+                {needed ? (
+                  // Needed: solid band color
+                  <Circle cx={x} cy={y} r={MARKER_RADIUS} fill={color} stroke={theme.surface} strokeWidth={1.5} />
+                ) : (
+                  // Hunted/worked: hollow ring
+                  <Circle cx={x} cy={y} r={MARKER_RADIUS - 1} fill={theme.surface} stroke={color} strokeWidth={2.5} />
+                )}
+              </G>
+            );
+          })}
+        </Svg>
+      )}
+
+      {placed.length === 0 && (
+        <Text style={styles.emptyText}>No spots with a location to show</Text>
+      )}
+
+      <View style={styles.controls}>
+        {(['spots', 'world'] as const).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.controlButton, extent === option && styles.controlButtonActive]}
+            onPress={() => setExtent(option)}
+          >
+            <Text style={styles.controlText}>{option === 'spots' ? 'Fit Spots' : 'World'}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {placed.length > 0 && (
+        <View style={styles.legend} pointerEvents="none">
+          <View style={styles.legendRow}>
+            {bandsShown.map(band => (
+              <View key={band} style={styles.legendItem}>
+                <View style={[styles.legendSwatch, { backgroundColor: theme.bandColors[band] }]} />
+                <Text style={styles.legendText}>{band}</Text>
+              </View>
+            ))}
+          </View>
+          <Text style={styles.legendText}>● needed   ○ worked{myLocation ? '   + me' : ''}</Text>
+        </View>
+      )}
+    </View>
+  );
+};
@@ -2,3 +2,7 @@ export * from './Icons';
 export * from './SpotCard';
 export * from './FilterBar';
 export * from './LogModal';
+export * from './AlertBanner';
+export * from './ActivationGroupCard';
+export * from './ReSpotSheet';
+export * from './SpotMap';
@@ -1,5 +1,10 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AlertRule } from '../services/alertService';
+import { DEFAULT_RESPOT_TEMPLATES } from '../services/potaService';
+import { DEFAULT_SPOT_SORT_MODE, SpotSortMode } from '../services/spotSortService';
+import { FilterPreset } from '../services/filterPresetService';
+import { ThemeMode } from '../theme/colors';
 
 export interface HRDSettings {
   ipAddress: string;
@@ -8,9 +13,63 @@ export interface HRDSettings {
   myCallsign: string;
 }
 
+export interface PollingSettings {
+  enabled: boolean;
+  intervalSeconds: number;
+}
+
+export interface AlertSettings {
+  rules: AlertRule[];
+  soundEnabled: boolean;
+}
+
+export interface StationSettings {
+  grid: string;  // My Maidenhead grid locator
+  locationSource: 'grid' | 'coordinates';  // What to measure spot distances from
+  latitude: number | null;   // Used when locationSource is 'coordinates'
+  longitude: number | null;
+}
+
+export interface ReSpotSettings {
+  templates: string[];  // Comment templates, see fillSpotTemplate
+}
+
+export interface SpotListSettings {
+  sortMode: SpotSortMode;
+  presets: FilterPreset[];
+  activePresetId: string | null;  // Preset applied on launch
+}
+
+export interface AppearanceSettings {
+  themeName: string;  // Key into themes (e.g. "orange", "night")
+  mode: ThemeMode;    // 'auto' follows the OS light/dark setting
+}
+
+interface StoredSettings {
+  hrdSettings: HRDSettings;
+  pollingSettings: PollingSettings;
+  alertSettings: AlertSettings;
+  stationSettings: StationSettings;
+  reSpotSettings: ReSpotSettings;
+  spotListSettings: SpotListSettings;
+  appearanceSettings: AppearanceSettings;
+}
+
 interface SettingsContextType {
   hrdSettings: HRDSettings;
   updateHRDSettings: (settings: Partial<HRDSettings>) => Promise<void>;
+  pollingSettings: PollingSettings;
+  updatePollingSettings: (settings: Partial<PollingSettings>) => Promise<void>;
+  alertSettings: AlertSettings;
+  updateAlertSettings: (settings: Partial<AlertSettings>) => Promise<void>;
+  stationSettings: StationSettings;
+  updateStationSettings: (settings: Partial<StationSettings>) => Promise<void>;
+  reSpotSettings: ReSpotSettings;
+  updateReSpotSettings: (settings: Partial<ReSpotSettings>) => Promise<void>;
+  spotListSettings: SpotListSettings;
+  updateSpotListSettings: (settings: Partial<SpotListSettings>) => Promise<void>;
+  appearanceSettings: AppearanceSettings;
+  updateAppearanceSettings: (settings: Partial<AppearanceSettings>) => Promise<void>;
   isLoading: boolean;
 }
 
@@ -21,6 +80,38 @@ const DEFAULT_HRD_SETTINGS: HRDSettings = {
   myCallsign: '',
 };
 
+const DEFAULT_POLLING_SETTINGS: PollingSettings = {
+  enabled: true,
+  intervalSeconds: 60,
+};
+
+const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  rules: [],
+  soundEnabled: true,
+};
+
+const DEFAULT_STATION_SETTINGS: StationSettings = {
+  grid: '',
+  locationSource: 'grid',
+  latitude: null,
+  longitude: null,
+};
+
+const DEFAULT_RESPOT_SETTINGS: ReSpotSettings = {
+  templates: DEFAULT_RESPOT_TEMPLATES,
+};
+
+const DEFAULT_SPOT_LIST_SETTINGS: SpotListSettings = {
+  sortMode: DEFAULT_SPOT_SORT_MODE,
+  presets: [],
+  activePresetId: null,
+};
+
+const DEFAULT_APPEARANCE_SETTINGS: AppearanceSettings = {
+  themeName: 'orange',
+  mode: 'light',
+};
+
 const STORAGE_KEY = '@PotaHunter:settings';
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
@@ -31,6 +122,12 @@ interface SettingsProviderProps {
 
 export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children }) => {
   const [hrdSettings, setHRDSettings] = useState<HRDSettings>(DEFAULT_HRD_SETTINGS);
+  const [pollingSettings, setPollingSettings] = useState<PollingSettings>(DEFAULT_POLLING_SETTINGS);
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(DEFAULT_ALERT_SETTINGS);
+  const [stationSettings, setStationSettings] = useState<StationSettings>(DEFAULT_STATION_SETTINGS);
+  const [reSpotSettings, setReSpotSettings] = useState<ReSpotSettings>(DEFAULT_RESPOT_SETTINGS);
+  const [spotListSettings, setSpotListSettings] = useState<SpotListSettings>(DEFAULT_SPOT_LIST_SETTINGS);
+  const [appearanceSettings, setAppearanceSettings] = useState<AppearanceSettings>(DEFAULT_APPEARANCE_SETTINGS);
   const [isLoading, setIsLoading] = useState(true);
 
   // Load settings from storage on mount
@@ -47,6 +144,30 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
           ...DEFAULT_HRD_SETTINGS,
           ...parsed.hrdSettings,
         });
+        setPollingSettings({
+          ...DEFAULT_POLLING_SETTINGS,
+          ...parsed.pollingSettings,
+        });
+        setAlertSettings({
+          ...DEFAULT_ALERT_SETTINGS,
+          ...parsed.alertSettings,
+        });
+        setStationSettings({
+          ...DEFAULT_STATION_SETTINGS,
+          ...parsed.stationSettings,
+        });
+        setReSpotSettings({
+          ...DEFAULT_RESPOT_SETTINGS,
+          ...parsed.reSpotSettings,
+        });
+        setSpotListSettings({
+          ...DEFAULT_SPOT_LIST_SETTINGS,
+          ...parsed.spotListSettings,
+        });
+        setAppearanceSettings({
+          ...DEFAULT_APPEARANCE_SETTINGS,
+          ...parsed.appearanceSettings,
+        });
       }
     } catch (error) {
       console.error('Error loading settings:', error);
@@ -55,25 +176,89 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
     }
   };
 
-  const saveSettings = async (settings: HRDSettings) => {
+  const saveSettings = async (settings: StoredSettings) => {
     try {
-      await AsyncStorage.setItem(
-        STORAGE_KEY,
-        JSON.stringify({ hrdSettings: settings })
-      );
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
     } catch (error) {
       console.error('Error saving settings:', error);
     }
   };
 
+  // Persist all settings, replacing the sections passed in
+  const persistSettings = (updates: Partial<StoredSettings>) =>
+    saveSettings({
+      hrdSettings,
+      pollingSettings,
+      alertSettings,
+      stationSettings,
+      reSpotSettings,
+      spotListSettings,
+      appearanceSettings,
+      ...updates,
+    });
+
   const updateHRDSettings = async (updates: Partial<HRDSettings>) => {
     const newSettings = { ...hrdSettings, ...updates };
     setHRDSettings(newSettings);
-    await saveSettings(newSettings);
+    await persistSettings({ hrdSettings: newSettings });
+  };
+
+  const updatePollingSettings = async (updates: Partial<PollingSettings>) => {
+    const newSettings = { ...pollingSettings, ...updates };
+    setPollingSettings(newSettings);
+    await persistSettings({ pollingSettings: newSettings });
+  };
+
+  const updateAlertSettings = async (updates: Partial<AlertSettings>) => {
+    const newSettings = { ...alertSettings, ...updates };
+    setAlertSettings(newSettings);
+    await persistSettings({ alertSettings: newSettings });
+  };
+
+  const updateStationSettings = async (updates: Partial<StationSettings>) => {
+    const newSettings = { ...stationSettings, ...updates };
+    setStationSettings(newSettings);
+    await persistSettings({ stationSettings: newSettings });
+  };
+
+  const updateReSpotSettings = async (updates: Partial<ReSpotSettings>) => {
+    const newSettings = { ...reSpotSettings, ...updates };
+    setReSpotSettings(newSettings);
+    await persistSettings({ reSpotSettings: newSettings });
+  };
+
+  const updateSpotListSettings = async (updates: Partial<SpotListSettings>) => {
+    const newSettings = { ...spotListSettings, ...updates };
+    setSpotListSettings(newSettings);
+    await persistSettings({ spotListSettings: newSettings });
+  };
+
+  const updateAppearanceSettings = async (updates: Partial<AppearanceSettings>) => {
+    const newSettings = { ...appearanceSettings, ...updates };
+    setAppearanceSettings(newSettings);
+    await persistSettings({ appearanceSettings: newSettings });
   };
 
   return (
-    <SettingsContext.Provider value={{ hrdSettings, updateHRDSettings, isLoading }}>
+    <SettingsContext.Provider
+      value={{
+        hrdSettings,
+        updateHRDSettings,
+        pollingSettings,
+        updatePollingSettings,
+        alertSettings,
+        updateAlertSettings,
+        stationSettings,
+        updateStationSettings,
+        reSpotSettings,
+        updateReSpotSettings,
+        spotListSettings,
+        updateSpotListSettings,
+        appearanceSettings,
+        updateAppearanceSettings,
+        isLoading,
+      }}
+    >
       {children}
     </SettingsContext.Provider>
   );
@@ -1,10 +1,14 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
-import { ColorScheme, defaultTheme, themes } from '../theme/colors';
+import React, { createContext, useContext, ReactNode } from 'react';
+import { useColorScheme } from 'react-native';
+import { ColorScheme, ThemeMode, getColorScheme, themes } from '../theme/colors';
+import { useSettings } from './SettingsContext';
 
 interface ThemeContextType {
   theme: ColorScheme;
   themeName: string;
   setTheme: (themeName: string) => void;
+  themeMode: ThemeMode;
+  setThemeMode: (mode: ThemeMode) => void;
   availableThemes: string[];
 }
 
@@ -14,21 +18,35 @@ interface ThemeProviderProps {
   children: ReactNode;
 }
 
+/**
+ * Provides the current colors from the saved appearance settings
+ * Must be rendered inside a SettingsProvider
+ */
 export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
-  const [themeName, setThemeName] = useState<string>('orange');
-  const [theme, setThemeColors] = useState<ColorScheme>(defaultTheme);
+  const { appearanceSettings, updateAppearanceSettings } = useSettings();
+  // Re-renders when the OS appearance changes, so 'auto' switches live
+  const systemScheme = useColorScheme();
+
+  const { themeName, mode: themeMode } = appearanceSettings;
+  const dark = themeMode === 'dark' || (themeMode === 'auto' && systemScheme === 'dark');
+  const theme = getColorScheme(themeName, dark);
 
   const setTheme = (name: string) => {
     if (themes[name]) {
-      setThemeName(name);
-      setThemeColors(themes[name]);
+      updateAppearanceSettings({ themeName: name });
     }
   };
 
+  const setThemeMode = (mode: ThemeMode) => {
+    updateAppearanceSettings({ mode });
+  };
+
   const availableThemes = Object.keys(themes);
 
   return (
-    <ThemeContext.Provider value={{ theme, themeName, setTheme, availableThemes }}>
+    <ThemeContext.Provider
+      value={{ theme, themeName, setTheme, themeMode, setThemeMode, availableThemes }}
+    >
       {children}
     </ThemeContext.Provider>
   );
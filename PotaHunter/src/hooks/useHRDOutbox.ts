@@ -0,0 +1,43 @@
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { HRDSettings } from '../context/SettingsContext';
+import { processOutbox } from '../services/hrdOutboxService';
+
+// How often to check for due deliveries while the app is active
+const OUTBOX_CHECK_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Retry queued HRD deliveries in the background
+ *
+ * - Checks the outbox on mount, on an interval, and when the app becomes active
+ * - Each item's own backoff decides whether it is sent on a given check
+ */
+export const useHRDOutbox = (settings: HRDSettings): void => {
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  useEffect(() => {
+    if (!settings.enabled) {
+      return;
+    }
+
+    const check = () => {
+      if (AppState.currentState === 'active') {
+        processOutbox(settingsRef.current);
+      }
+    };
+
+    check();
+    const interval = setInterval(check, OUTBOX_CHECK_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        check();
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [settings.enabled, settings.ipAddress, settings.port]);
+};
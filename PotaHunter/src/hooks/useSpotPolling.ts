@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { getPollDelay } from '../services/spotPollingService';
+
+interface SpotPollingOptions {
+  enabled: boolean;
+  intervalSeconds: number;
+  poll: () => Promise<void>; // Should throw when the API request fails
+}
+
+export interface SpotPollingState {
+  consecutiveErrors: number;
+  nextPollAt: number | null; // Epoch ms, null while paused or disabled
+}
+
+/**
+ * Run a background polling loop
+ *
+ * - Waits intervalSeconds between polls, backing off on consecutive errors
+ * - Pauses while the app is in the background and resumes when it becomes active
+ * - The first poll happens one interval after mount (the screen loads spots itself)
+ */
+export const useSpotPolling = ({
+  enabled,
+  intervalSeconds,
+  poll,
+}: SpotPollingOptions): SpotPollingState => {
+  const pollRef = useRef(poll);
+  pollRef.current = poll;
+
+  const [state, setState] = useState<SpotPollingState>({
+    consecutiveErrors: 0,
+    nextPollAt: null,
+  });
+
+  useEffect(() => {
+    if (!enabled) {
+      setState(prev => ({ ...prev, nextPollAt: null }));
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let inFlight = false;
+    let errors = 0;
+    let lastPollAt = Date.now();
+    let appState: AppStateStatus = AppState.currentState;
+
+    const schedule = () => {
+      if (cancelled || appState === 'background') {
+        return;
+      }
+
+      const delay = getPollDelay(intervalSeconds * 1000, errors);
+      const wait = Math.max(0, lastPollAt + delay - Date.now());
+      setState({ consecutiveErrors: errors, nextPollAt: Date.now() + wait });
+      timer = setTimeout(run, wait);
+    };
+
+    const run = async () => {
+      timer = null;
+      inFlight = true;
+      try {
+        await pollRef.current();
+        errors = 0;
+      } catch (error) {
+        errors += 1;
+        console.error(`Spot poll failed (${errors} in a row):`, error);
+      } finally {
+        inFlight = false;
+      }
+      lastPollAt = Date.now();
+      schedule();
+    };
+
+    const subscription = AppState.addEventListener('change', nextState => {
+      appState = nextState;
+
+      if (nextState === 'background') {
+        if (timer) {
+          clearTimeout(timer);
+          timer = null;
+        }
+        if (!cancelled) {
+          setState(prev => ({ ...prev, nextPollAt: null }));
+        }
+      } else if (!timer && !inFlight) {
+        // Returning to the foreground polls immediately if an interval has passed
+        schedule();
+      }
+    });
+
+    schedule();
+
+    return () => {
+      cancelled = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      subscription.remove();
+    };
+  }, [enabled, intervalSeconds]);
+
+  return state;
+};
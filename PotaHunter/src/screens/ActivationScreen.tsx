@@ -0,0 +1,651 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { useSettings } from '../context/SettingsContext';
+import {
+  Activation,
+  ActivationQSO,
+  ACTIVATION_QSO_THRESHOLD,
+  addActivationQSO,
+  deleteActivationQSO,
+  endActivation,
+  exportActivationADIF,
+  getActivations,
+  getActivationProgress,
+  getActivationQSOs,
+  getActiveActivation,
+  selfSpot,
+  startActivation,
+  subscribeToActivations,
+  updateActivation,
+} from '../services/activationService';
+import { formatFrequency, getBand } from '../types/spot';
+
+// Default signal report for the mode (CW and digital use RST, phone uses RS)
+const getDefaultReport = (mode: string): string =>
+  ['SSB', 'USB', 'LSB', 'AM', 'FM'].includes(mode.toUpperCase()) ? '59' : '599';
+
+interface ActivationScreenProps {
+  onBack: () => void;
+}
+
+export const ActivationScreen: React.FC<ActivationScreenProps> = ({ onBack }) => {
+  const { theme } = useTheme();
+  const { hrdSettings } = useSettings();
+
+  const [activation, setActivation] = useState<Activation | null>(null);
+  const [qsos, setQsos] = useState<ActivationQSO[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pastActivations, setPastActivations] = useState<Activation[]>([]);
+
+  // Setup form
+  const [parks, setParks] = useState('');
+  const [myCallsign, setMyCallsign] = useState(hrdSettings.myCallsign);
+
+  // Frequency/mode (setup and while active)
+  const [frequency, setFrequency] = useState('');
+  const [mode, setMode] = useState('CW');
+
+  // Rapid QSO entry
+  const [callsign, setCallsign] = useState('');
+  const [rstSent, setRstSent] = useState('599');
+  const [rstReceived, setRstReceived] = useState('599');
+  const [theirPark, setTheirPark] = useState('');
+  const [spotComment, setSpotComment] = useState('');
+  const [isSpotting, setIsSpotting] = useState(false);
+  const callsignInputRef = useRef<TextInput>(null);
+
+  const loadActivation = async () => {
+    const active = await getActiveActivation();
+    setActivation(active);
+    setPastActivations((await getActivations()).filter(item => item.endedAt));
+    setQsos(active ? await getActivationQSOs(active.id) : []);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadActivation();
+    return subscribeToActivations(() => {
+      loadActivation();
+    });
+  }, []);
+
+  // Sync frequency/mode inputs with the activation when it starts or changes
+  useEffect(() => {
+    if (activation) {
+      setFrequency(activation.frequency);
+      setMode(activation.mode);
+      setRstSent(getDefaultReport(activation.mode));
+      setRstReceived(getDefaultReport(activation.mode));
+    }
+  }, [activation?.id, activation?.frequency, activation?.mode]);
+
+  const progress = getActivationProgress(qsos);
+
+  const handleStart = async () => {
+    const result = await startActivation(parks, myCallsign, frequency, mode);
+    if (!result.success) {
+      Alert.alert('Cannot Start Activation', result.message);
+    }
+  };
+
+  const handleEnd = () => {
+    if (!activation) {
+      return;
+    }
+    Alert.alert(
+      'End Activation',
+      `End the activation at ${activation.parkReferences.join(', ')} with ${qsos.length} QSOs?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'End', style: 'destructive', onPress: () => endActivation(activation.id) },
+      ]
+    );
+  };
+
+  const handleUpdateFrequencyMode = async () => {
+    if (!activation) {
+      return;
+    }
+    if (frequency.trim() === activation.frequency && mode.trim().toUpperCase() === activation.mode) {
+      return;
+    }
+    await updateActivation(activation.id, { frequency, mode });
+  };
+
+  const handleSelfSpot = async () => {
+    if (!activation) {
+      return;
+    }
+    if (!activation.frequency) {
+      Alert.alert('Missing Frequency', 'Set your frequency before spotting');
+      return;
+    }
+
+    setIsSpotting(true);
+    try {
+      const result = await selfSpot(activation, spotComment);
+      Alert.alert(result.success ? 'Spotted' : 'Spot Failed', result.message);
+      if (result.success) {
+        setSpotComment('');
+      }
+    } finally {
+      setIsSpotting(false);
+    }
+  };
+
+  const handleLogQSO = async () => {
+    if (!activation) {
+      return;
+    }
+
+    const result = await addActivationQSO(activation, {
+      callsign,
+      rstSent,
+      rstReceived,
+      theirParkReference: theirPark,
+    });
+
+    if (!result.success) {
+      Alert.alert('Log Failed', result.message);
+      return;
+    }
+
+    setCallsign('');
+    setTheirPark('');
+    setRstSent(getDefaultReport(activation.mode));
+    setRstReceived(getDefaultReport(activation.mode));
+    callsignInputRef.current?.focus();
+  };
+
+  const handleExport = async (target: Activation) => {
+    const result = await exportActivationADIF(target);
+    Alert.alert(result.success ? 'Export Complete' : 'Export Failed', result.message);
+  };
+
+  const handleDeleteQSO = (qso: ActivationQSO) => {
+    Alert.alert('Delete QSO', `Delete QSO with ${qso.callsign}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => deleteActivationQSO(qso.activationId, qso.id),
+      },
+    ]);
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.background,
+    },
+    header: {
+      backgroundColor: theme.primary,
+      padding: 16,
+      paddingTop: 8,
+    },
+    headerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    backButton: {
+      padding: 8,
+      marginRight: 8,
+    },
+    backText: {
+      fontSize: 24,
+      color: theme.textOnPrimary,
+    },
+    headerTitle: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: theme.textOnPrimary,
+      flex: 1,
+    },
+    headerSubtitle: {
+      fontSize: 14,
+      color: theme.textOnPrimary,
+      opacity: 0.9,
+      marginLeft: 48,
+    },
+    section: {
+      backgroundColor: theme.surface,
+      padding: 16,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    label: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      marginBottom: 4,
+    },
+    input: {
+      backgroundColor: theme.surfaceVariant,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 16,
+      color: theme.text,
+      borderWidth: 1,
+      borderColor: theme.border,
+      marginBottom: 12,
+    },
+    callsignInput: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      letterSpacing: 1,
+    },
+    row: {
+      flexDirection: 'row',
+    },
+    rowItem: {
+      flex: 1,
+      marginRight: 8,
+    },
+    rowItemLast: {
+      flex: 1,
+    },
+    button: {
+      backgroundColor: theme.primary,
+      paddingVertical: 12,
+      paddingHorizontal: 16,
+      borderRadius: 8,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    buttonSecondary: {
+      backgroundColor: theme.surfaceVariant,
+      borderWidth: 1,
+      borderColor: theme.primary,
+    },
+    buttonDanger: {
+      backgroundColor: theme.error,
+    },
+    buttonText: {
+      color: theme.textOnPrimary,
+      fontWeight: '600',
+      fontSize: 16,
+    },
+    buttonTextSecondary: {
+      color: theme.primary,
+    },
+    progressRow: {
+      flexDirection: 'row',
+      alignItems: 'baseline',
+      justifyContent: 'space-between',
+      marginBottom: 8,
+    },
+    progressCount: {
+      fontSize: 32,
+      fontWeight: 'bold',
+      color: theme.text,
+    },
+    progressText: {
+      fontSize: 14,
+      color: theme.textSecondary,
+    },
+    progressTrack: {
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: theme.surfaceVariant,
+      overflow: 'hidden',
+    },
+    progressFill: {
+      height: 8,
+      borderRadius: 4,
+    },
+    qsoRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+      backgroundColor: theme.surface,
+    },
+    qsoNumber: {
+      width: 32,
+      fontSize: 13,
+      color: theme.textSecondary,
+    },
+    qsoInfo: {
+      flex: 1,
+    },
+    qsoCallsign: {
+      fontSize: 16,
+      fontWeight: 'bold',
+      color: theme.text,
+    },
+    qsoDetails: {
+      fontSize: 12,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    deleteText: {
+      color: theme.error,
+      fontSize: 14,
+      fontWeight: '600',
+    },
+    hint: {
+      fontSize: 12,
+      color: theme.textSecondary,
+      textAlign: 'center',
+      marginTop: 8,
+    },
+    pastRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    exportText: {
+      color: theme.primary,
+      fontSize: 14,
+      fontWeight: '600',
+    },
+    emptyText: {
+      fontSize: 14,
+      color: theme.textSecondary,
+      textAlign: 'center',
+      padding: 24,
+    },
+  });
+
+  const renderHeader = (subtitle: string) => (
+    <View style={styles.header}>
+      <View style={styles.headerRow}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backText}>←</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Activation</Text>
+      </View>
+      <Text style={styles.headerSubtitle}>{subtitle}</Text>
+    </View>
+  );
+
+  const renderFrequencyMode = () => (
+    <View style={styles.row}>
+      <View style={styles.rowItem}>
+        <Text style={styles.label}>Frequency (kHz)</Text>
+        <TextInput
+          style={styles.input}
+          value={frequency}
+          onChangeText={setFrequency}
+          onEndEditing={handleUpdateFrequencyMode}
+          placeholder="14062"
+          placeholderTextColor={theme.textSecondary}
+          keyboardType="decimal-pad"
+        />
+      </View>
+      <View style={styles.rowItemLast}>
+        <Text style={styles.label}>Mode</Text>
+        <TextInput
+          style={styles.input}
+          value={mode}
+          onChangeText={setMode}
+          onEndEditing={handleUpdateFrequencyMode}
+          placeholder="CW"
+          placeholderTextColor={theme.textSecondary}
+          autoCapitalize="characters"
+          autoCorrect={false}
+        />
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar backgroundColor={theme.primary} barStyle={theme.statusBarStyle} />
+        {renderHeader('Loading...')}
+        <ActivityIndicator style={{ marginTop: 32 }} color={theme.primary} />
+      </SafeAreaView>
+    );
+  }
+
+  if (!activation) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar backgroundColor={theme.primary} barStyle={theme.statusBarStyle} />
+        {renderHeader('Start a new activation')}
+
+        <View style={styles.section}>
+          <Text style={styles.label}>Park Reference(s)</Text>
+          <TextInput
+            style={styles.input}
+            value={parks}
+            onChangeText={setParks}
+            placeholder="US-0001, US-0002"
+            placeholderTextColor={theme.textSecondary}
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+
+          <Text style={styles.label}>My Callsign</Text>
+          <TextInput
+            style={styles.input}
+            value={myCallsign}
+            onChangeText={setMyCallsign}
+            placeholder="W1ABC"
+            placeholderTextColor={theme.textSecondary}
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+
+          {renderFrequencyMode()}
+
+          <TouchableOpacity style={styles.button} onPress={handleStart}>
+            <Text style={styles.buttonText}>Start Activation</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.hint}>
+            Separate multiple parks with commas for a 2-fer or more.
+            Activation QSOs are kept separately from your hunter log.
+          </Text>
+        </View>
+
+        {pastActivations.length > 0 && (
+          <FlatList
+            data={pastActivations}
+            keyExtractor={(item) => item.id}
+            style={styles.section}
+            ListHeaderComponent={<Text style={styles.label}>Past Activations</Text>}
+            renderItem={({ item }) => (
+              <View style={styles.pastRow}>
+                <View style={styles.qsoInfo}>
+                  <Text style={styles.qsoCallsign}>{item.parkReferences.join(', ')}</Text>
+                  <Text style={styles.qsoDetails}>
+                    {item.myCallsign} · {new Date(item.startedAt).toLocaleDateString()}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => handleExport(item)}>
+                  <Text style={styles.exportText}>Export ADIF</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          />
+        )}
+      </SafeAreaView>
+    );
+  }
+
+  const progressColor = progress.complete ? theme.success : theme.warning;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar backgroundColor={theme.primary} barStyle={theme.statusBarStyle} />
+      {renderHeader(`${activation.myCallsign} @ ${activation.parkReferences.join(', ')}`)}
+
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <FlatList
+          data={qsos}
+          keyExtractor={(item) => item.id}
+          keyboardShouldPersistTaps="handled"
+          ListHeaderComponent={
+            <>
+              <View style={styles.section}>
+                <View style={styles.progressRow}>
+                  <Text style={styles.progressCount}>
+                    {progress.count}/{ACTIVATION_QSO_THRESHOLD}
+                  </Text>
+                  <Text style={styles.progressText}>
+                    {progress.complete
+                      ? `Activated! (${progress.date} UTC)`
+                      : `${progress.needed} more needed today (UTC)`}
+                  </Text>
+                </View>
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      {
+                        backgroundColor: progressColor,
+                        width: `${Math.min(100, (progress.count / ACTIVATION_QSO_THRESHOLD) * 100)}%`,
+                      },
+                    ]}
+                  />
+                </View>
+              </View>
+
+              <View style={styles.section}>
+                {renderFrequencyMode()}
+                <Text style={styles.label}>Spot Comment</Text>
+                <TextInput
+                  style={styles.input}
+                  value={spotComment}
+                  onChangeText={setSpotComment}
+                  placeholder="QRV, QRT, QSY..."
+                  placeholderTextColor={theme.textSecondary}
+                />
+                <View style={[styles.row, { marginBottom: 8 }]}>
+                  <TouchableOpacity
+                    style={[styles.button, styles.buttonSecondary, styles.rowItem]}
+                    onPress={handleSelfSpot}
+                    disabled={isSpotting}
+                  >
+                    {isSpotting ? (
+                      <ActivityIndicator color={theme.primary} />
+                    ) : (
+                      <Text style={[styles.buttonText, styles.buttonTextSecondary]}>Self-Spot</Text>
+                    )}
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.button, styles.buttonDanger, styles.rowItemLast]}
+                    onPress={handleEnd}
+                  >
+                    <Text style={styles.buttonText}>End Activation</Text>
+                  </TouchableOpacity>
+                </View>
+                <TouchableOpacity
+                  style={[styles.button, styles.buttonSecondary]}
+                  onPress={() => handleExport(activation)}
+                  disabled={qsos.length === 0}
+                >
+                  <Text style={[styles.buttonText, styles.buttonTextSecondary]}>
+                    Export ADIF (one file per park per UTC day)
+                  </Text>
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.section}>
+                <Text style={styles.label}>Callsign</Text>
+                <TextInput
+                  ref={callsignInputRef}
+                  style={[styles.input, styles.callsignInput]}
+                  value={callsign}
+                  onChangeText={setCallsign}
+                  onSubmitEditing={handleLogQSO}
+                  placeholder="W1ABC"
+                  placeholderTextColor={theme.textSecondary}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  returnKeyType="done"
+                  blurOnSubmit={false}
+                  autoFocus
+                />
+                <View style={styles.row}>
+                  <View style={styles.rowItem}>
+                    <Text style={styles.label}>Sent</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={rstSent}
+                      onChangeText={setRstSent}
+                      keyboardType="numeric"
+                      maxLength={3}
+                    />
+                  </View>
+                  <View style={styles.rowItem}>
+                    <Text style={styles.label}>Rcvd</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={rstReceived}
+                      onChangeText={setRstReceived}
+                      keyboardType="numeric"
+                      maxLength={3}
+                    />
+                  </View>
+                  <View style={styles.rowItemLast}>
+                    <Text style={styles.label}>Their Park</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={theirPark}
+                      onChangeText={setTheirPark}
+                      placeholder="P2P"
+                      placeholderTextColor={theme.textSecondary}
+                      autoCapitalize="characters"
+                      autoCorrect={false}
+                    />
+                  </View>
+                </View>
+                <TouchableOpacity
+                  style={styles.button}
+                  onPress={handleLogQSO}
+                  disabled={!callsign.trim()}
+                >
+                  <Text style={styles.buttonText}>Log QSO</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          }
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>No QSOs yet. Self-spot and start calling CQ!</Text>
+          }
+          renderItem={({ item, index }) => (
+            <View style={styles.qsoRow}>
+              <Text style={styles.qsoNumber}>{qsos.length - index}</Text>
+              <View style={styles.qsoInfo}>
+                <Text style={styles.qsoCallsign}>{item.callsign}</Text>
+                <Text style={styles.qsoDetails}>
+                  {item.timestamp.slice(11, 16)} UTC · {formatFrequency(item.frequency)} ({getBand(item.frequency)}) {item.mode} ·{' '}
+                  {item.rstSent}/{item.rstReceived}
+                  {item.theirParkReference ? ` · P2P ${item.theirParkReference}` : ''}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => handleDeleteQSO(item)}>
+                <Text style={styles.deleteText}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        />
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -11,33 +11,58 @@ import {
   StatusBar,
 } from 'react-native';
 import { useTheme } from '../context/ThemeContext';
+import { useSettings } from '../context/SettingsContext';
 import {
   InternalLogEntry,
-  getInternalLogs,
+  DeliveryStatus,
+  getDeliveryStatus,
+  getInternalLogsPage,
   deleteLogEntry,
   clearInternalLogs,
   exportLogsAsCSV,
   exportLogsAsADIF,
+  importLogsFromADIF,
+  updateLogEntry,
+  validateLogEntry,
 } from '../services/internalLogService';
+import {
+  OutboxCounts,
+  getOutboxCounts,
+  retryFailedDeliveries,
+  subscribeToOutbox,
+} from '../services/hrdOutboxService';
+import { LogModal, QSOData } from '../components/LogModal';
 import { formatFrequency, getBand, getTimeAgo } from '../types/spot';
 
+// Number of log entries loaded per page
+const PAGE_SIZE = 50;
+
 interface InternalLogsScreenProps {
   onBack: () => void;
 }
 
 export const InternalLogsScreen: React.FC<InternalLogsScreenProps> = ({ onBack }) => {
   const { theme } = useTheme();
+  const { hrdSettings } = useSettings();
   const [logs, setLogs] = useState<InternalLogEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [entryToEdit, setEntryToEdit] = useState<InternalLogEntry | null>(null);
+  const [outboxCounts, setOutboxCounts] = useState<OutboxCounts>({ pending: 0, failed: 0 });
+  const [retrying, setRetrying] = useState(false);
+  const loadedCountRef = useRef(0);
+  loadedCountRef.current = logs.length;
 
   const loadLogs = async (isRefresh = false) => {
     try {
       if (!isRefresh) {
         setLoading(true);
       }
-      const data = await getInternalLogs();
-      setLogs(data);
+      const page = await getInternalLogsPage({ offset: 0, limit: PAGE_SIZE });
+      setLogs(page.entries);
+      setTotalCount(page.total);
     } catch (error) {
       console.error('Error loading logs:', error);
       Alert.alert('Error', 'Failed to load internal logs');
@@ -51,6 +76,42 @@ export const InternalLogsScreen: React.FC<InternalLogsScreenProps> = ({ onBack }
     loadLogs();
   }, []);
 
+  // Keep delivery statuses and outbox counts current while deliveries are retried
+  useEffect(() => {
+    getOutboxCounts().then(setOutboxCounts);
+
+    return subscribeToOutbox(async counts => {
+      setOutboxCounts(counts);
+      try {
+        const page = await getInternalLogsPage({
+          offset: 0,
+          limit: Math.max(loadedCountRef.current, PAGE_SIZE),
+        });
+        setLogs(page.entries);
+        setTotalCount(page.total);
+      } catch (error) {
+        console.error('Error refreshing logs:', error);
+      }
+    });
+  }, []);
+
+  const loadMoreLogs = async () => {
+    if (loading || loadingMore || logs.length >= totalCount) {
+      return;
+    }
+
+    setLoadingMore(true);
+    try {
+      const page = await getInternalLogsPage({ offset: logs.length, limit: PAGE_SIZE });
+      setLogs(prev => [...prev, ...page.entries]);
+      setTotalCount(page.total);
+    } catch (error) {
+      console.error('Error loading more logs:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const onRefresh = useCallback(() => {
     setRefreshing(true);
     loadLogs(true);
@@ -78,6 +139,47 @@ export const InternalLogsScreen: React.FC<InternalLogsScreenProps> = ({ onBack }
     );
   };
 
+  const handleEditSubmit = async (qsoData: QSOData) => {
+    if (!entryToEdit) {
+      return;
+    }
+
+    const result = await updateLogEntry(entryToEdit.id, {
+      timestamp: qsoData.timestamp,
+      callsign: qsoData.callsign,
+      parkReference: qsoData.parkReference,
+      myParkReference: qsoData.myParkReference,
+      frequency: qsoData.frequency,
+      mode: qsoData.mode,
+      rstSent: qsoData.rstSent,
+      rstReceived: qsoData.rstReceived,
+      comment: qsoData.comment.trim(),
+    });
+
+    if (!result.success) {
+      Alert.alert('Update Failed', result.message);
+      throw new Error(result.message);
+    }
+
+    const updated = result.entry;
+    if (updated) {
+      setLogs(prev => prev.map(log => (log.id === updated.id ? updated : log)));
+    }
+  };
+
+  const handleShowEditHistory = (log: InternalLogEntry) => {
+    const history = (log.editHistory ?? [])
+      .map(edit => {
+        const changes = Object.entries(edit.changes)
+          .map(([field, change]) => `  ${field}: ${change?.from || '(empty)'} → ${change?.to || '(empty)'}`)
+          .join('\n');
+        return `${new Date(edit.editedAt).toLocaleString()}\n${changes}`;
+      })
+      .join('\n\n');
+
+    Alert.alert('Edit History', history || 'No edits');
+  };
+
   const handleClearAll = () => {
     if (logs.length === 0) {
       Alert.alert('No Logs', 'There are no logs to clear');
@@ -86,7 +188,7 @@ export const InternalLogsScreen: React.FC<InternalLogsScreenProps> = ({ onBack }
 
     Alert.alert(
       'Clear All Logs',
-      `Delete all ${logs.length} log entries? This cannot be undone.`,
+      `Delete all ${totalCount} log entries? This cannot be undone.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -134,29 +236,71 @@ export const InternalLogsScreen: React.FC<InternalLogsScreenProps> = ({ onBack }
     }
   };
 
-  const getSavedReasonColor = (reason: string) => {
-    switch (reason) {
-      case 'relay-unavailable':
+  const handleImportADIF = async () => {
+    const result = await importLogsFromADIF();
+    if (!result) {
+      return;
+    }
+
+    if (result.success) {
+      loadLogs();
+      Alert.alert(
+        'Import Complete',
+        `Imported: ${result.imported}\nSkipped (duplicates): ${result.skipped}\nMalformed: ${result.malformed}`
+      );
+    } else {
+      Alert.alert('Import Failed', result.message);
+    }
+  };
+
+  const handleRetryDeliveries = async () => {
+    if (!hrdSettings.enabled) {
+      Alert.alert('HRD Disabled', 'Enable HRD in settings to send queued QSOs.');
+      return;
+    }
+
+    setRetrying(true);
+    try {
+      await retryFailedDeliveries(hrdSettings);
+      const counts = await getOutboxCounts();
+      if (counts.pending + counts.failed > 0) {
+        Alert.alert(
+          'Retry Incomplete',
+          `${counts.pending + counts.failed} QSO(s) could not be sent. Check that the HRD relay is running.`
+        );
+      }
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const getDeliveryStatusColor = (status: DeliveryStatus) => {
+    switch (status) {
+      case 'delivered':
+        return theme.success;
+      case 'pending':
         return theme.warning || '#FF9800';
-      case 'hrd-error':
+      case 'failed':
         return theme.error;
-      case 'manual':
-        return theme.success;
+      case 'local-only':
+        return theme.secondary;
       default:
         return theme.textSecondary;
     }
   };
 
-  const getSavedReasonText = (reason: string) => {
-    switch (reason) {
-      case 'relay-unavailable':
-        return 'Relay Unavailable';
-      case 'hrd-error':
-        return 'HRD Error';
-      case 'manual':
-        return 'Manual Save';
+  const getDeliveryStatusText = (status: DeliveryStatus) => {
+    switch (status) {
+      case 'delivered':
+        return 'Sent to HRD';
+      case 'pending':
+        return 'HRD Pending';
+      case 'failed':
+        return 'HRD Failed';
+      case 'local-only':
+        return 'Local Only';
       default:
-        return reason;
+        return status;
     }
   };
 
@@ -221,6 +365,41 @@ export const InternalLogsScreen: React.FC<InternalLogsScreenProps> = ({ onBack }
     clearButton: {
       backgroundColor: theme.error,
     },
+    importRow: {
+      paddingTop: 0,
+    },
+    outboxBar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      backgroundColor: theme.surfaceVariant,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    outboxText: {
+      flex: 1,
+      fontSize: 13,
+      color: theme.text,
+    },
+    outboxFailedText: {
+      color: theme.error,
+      fontWeight: '600',
+    },
+    retryButton: {
+      backgroundColor: theme.primary,
+      paddingHorizontal: 16,
+      paddingVertical: 8,
+      borderRadius: 20,
+    },
+    importButton: {
+      backgroundColor: theme.surfaceVariant,
+      borderWidth: 1,
+      borderColor: theme.primary,
+    },
+    importButtonText: {
+      color: theme.primary,
+    },
     buttonText: {
       color: theme.textOnPrimary,
       fontWeight: '600',
@@ -318,6 +497,26 @@ export const InternalLogsScreen: React.FC<InternalLogsScreenProps> = ({ onBack }
       fontSize: 12,
       color: theme.textSecondary,
     },
+    footerButtons: {
+      flexDirection: 'row',
+    },
+    editButton: {
+      backgroundColor: theme.primary,
+      paddingHorizontal: 16,
+      paddingVertical: 8,
+      borderRadius: 20,
+      marginRight: 8,
+    },
+    editText: {
+      color: theme.textOnPrimary,
+      fontWeight: '600',
+      fontSize: 14,
+    },
+    editedText: {
+      fontSize: 12,
+      color: theme.primary,
+      marginTop: 4,
+    },
     deleteButton: {
       backgroundColor: theme.error,
       paddingHorizontal: 16,
@@ -352,8 +551,9 @@ export const InternalLogsScreen: React.FC<InternalLogsScreenProps> = ({ onBack }
     const band = getBand(item.frequency);
     const timestamp = new Date(item.timestamp);
     const timeAgo = getTimeAgo(item.timestamp);
-    const reasonColor = getSavedReasonColor(item.savedReason);
-    const reasonText = getSavedReasonText(item.savedReason);
+    const deliveryStatus = getDeliveryStatus(item);
+    const reasonColor = getDeliveryStatusColor(deliveryStatus);
+    const reasonText = getDeliveryStatusText(deliveryStatus);
 
     return (
       <View style={[styles.logCard, { borderLeftColor: reasonColor }]}>
@@ -376,6 +576,13 @@ export const InternalLogsScreen: React.FC<InternalLogsScreenProps> = ({ onBack }
           <Text style={styles.infoValue}>{item.myCallsign || 'N/A'}</Text>
         </View>
 
+        {item.myParkReference && (
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>My Park:</Text>
+            <Text style={styles.infoValue}>{item.myParkReference} (P2P)</Text>
+          </View>
+        )}
+
         <View style={styles.infoRow}>
           <Text style={styles.infoLabel}>Frequency:</Text>
           <Text style={styles.infoValue}>
@@ -409,15 +616,32 @@ export const InternalLogsScreen: React.FC<InternalLogsScreenProps> = ({ onBack }
         )}
 
         <View style={styles.footer}>
-          <Text style={styles.timestamp}>
-            {timestamp.toLocaleDateString()} {timestamp.toLocaleTimeString()} ({timeAgo})
-          </Text>
-          <TouchableOpacity
-            style={styles.deleteButton}
-            onPress={() => handleDelete(item)}
-          >
-            <Text style={styles.deleteText}>Delete</Text>
-          </TouchableOpacity>
+          <View style={styles.callsignContainer}>
+            <Text style={styles.timestamp}>
+              {timestamp.toLocaleDateString()} {timestamp.toLocaleTimeString()} ({timeAgo})
+            </Text>
+            {item.editHistory && item.editHistory.length > 0 && (
+              <TouchableOpacity onPress={() => handleShowEditHistory(item)}>
+                <Text style={styles.editedText}>
+                  Edited {item.editHistory.length}x (view history)
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <View style={styles.footerButtons}>
+            <TouchableOpacity
+              style={styles.editButton}
+              onPress={() => setEntryToEdit(item)}
+            >
+              <Text style={styles.editText}>Edit</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.deleteButton}
+              onPress={() => handleDelete(item)}
+            >
+              <Text style={styles.deleteText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
         </View>
       </View>
     );
@@ -425,7 +649,7 @@ export const InternalLogsScreen: React.FC<InternalLogsScreenProps> = ({ onBack }
 
   return (
     <SafeAreaView style={styles.container}>
-      <StatusBar backgroundColor={theme.primary} barStyle="light-content" />
+      <StatusBar backgroundColor={theme.primary} barStyle={theme.statusBarStyle} />
       
       <View style={styles.header}>
         <View style={styles.headerRow}>
@@ -436,7 +660,7 @@ export const InternalLogsScreen: React.FC<InternalLogsScreenProps> = ({ onBack }
         </View>
         <Text style={styles.headerSubtitle}>QSOs saved locally</Text>
         {logs.length > 0 && (
-          <Text style={styles.logCount}>{logs.length} log entries</Text>
+          <Text style={styles.logCount}>{totalCount} log entries</Text>
         )}
       </View>
 
@@ -463,6 +687,32 @@ export const InternalLogsScreen: React.FC<InternalLogsScreenProps> = ({ onBack }
           <Text style={styles.buttonText}>Clear All</Text>
         </TouchableOpacity>
       </View>
+      <View style={[styles.buttonContainer, styles.importRow]}>
+        <TouchableOpacity
+          style={[styles.button, styles.importButton]}
+          onPress={handleImportADIF}
+        >
+          <Text style={[styles.buttonText, styles.importButtonText]}>Import ADIF</Text>
+        </TouchableOpacity>
+      </View>
+
+      {outboxCounts.pending + outboxCounts.failed > 0 && (
+        <View style={styles.outboxBar}>
+          <Text style={styles.outboxText}>
+            HRD outbox: {outboxCounts.pending} pending
+            {outboxCounts.failed > 0 && (
+              <Text style={styles.outboxFailedText}>, {outboxCounts.failed} failed</Text>
+            )}
+          </Text>
+          <TouchableOpacity
+            style={styles.retryButton}
+            onPress={handleRetryDeliveries}
+            disabled={retrying}
+          >
+            <Text style={styles.buttonText}>{retrying ? 'Retrying...' : 'Retry Now'}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
 
       {loading ? (
         <View style={styles.emptyContainer}>
@@ -481,6 +731,13 @@ export const InternalLogsScreen: React.FC<InternalLogsScreenProps> = ({ onBack }
           keyExtractor={(item) => item.id}
           renderItem={renderLogItem}
           contentContainerStyle={styles.listContent}
+          onEndReached={loadMoreLogs}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            loadingMore ? (
+              <Text style={styles.emptySubtext}>Loading more...</Text>
+            ) : null
+          }
           refreshControl={
             <RefreshControl
               refreshing={refreshing}
@@ -491,6 +748,16 @@ export const InternalLogsScreen: React.FC<InternalLogsScreenProps> = ({ onBack }
           }
         />
       )}
+
+      <LogModal
+        visible={entryToEdit !== null}
+        spot={null}
+        entry={entryToEdit}
+        stationCallsign={entryToEdit?.myCallsign || ''}
+        onClose={() => setEntryToEdit(null)}
+        onSubmit={handleEditSubmit}
+        onValidate={validateLogEntry}
+      />
     </SafeAreaView>
   );
 };
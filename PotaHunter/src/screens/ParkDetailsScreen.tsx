@@ -0,0 +1,329 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { ParkDetailsResult, getParkDetails } from '../services/parkService';
+import {
+  InternalLogEntry,
+  getInternalLogsPage,
+  subscribeToLogChanges,
+} from '../services/internalLogService';
+import {
+  getWatchlist,
+  isParkFavorite,
+  setParkFavorite,
+  subscribeToWatchlist,
+} from '../services/watchlistService';
+import { formatFrequency, getBand, normalizeParkReference } from '../types/spot';
+
+// Format a POTA activation date (YYYYMMDD) for display
+const formatActivationDate = (date: string): string =>
+  date.length === 8 ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}` : date;
+
+interface ParkDetailsScreenProps {
+  reference: string;
+  onBack: () => void;
+}
+
+export const ParkDetailsScreen: React.FC<ParkDetailsScreenProps> = ({ reference, onBack }) => {
+  const { theme } = useTheme();
+  const parkReference = normalizeParkReference(reference);
+
+  const [result, setResult] = useState<ParkDetailsResult | null>(null);
+  const [qsos, setQsos] = useState<InternalLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [isFavorite, setIsFavorite] = useState(false);
+
+  useEffect(() => {
+    getWatchlist().then(watchlist => setIsFavorite(isParkFavorite(watchlist, parkReference)));
+    return subscribeToWatchlist(watchlist => setIsFavorite(isParkFavorite(watchlist, parkReference)));
+  }, [parkReference]);
+
+  const loadQSOs = useCallback(async () => {
+    const page = await getInternalLogsPage({ parkReference });
+    setQsos(page.entries);
+  }, [parkReference]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([getParkDetails(parkReference), loadQSOs()])
+      .then(([details]) => {
+        if (!cancelled) {
+          setResult(details);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [parkReference, loadQSOs]);
+
+  // Keep our QSO history current if the log changes while open
+  useEffect(() => subscribeToLogChanges(() => {
+    loadQSOs();
+  }), [loadQSOs]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      const [details] = await Promise.all([getParkDetails(parkReference, true), loadQSOs()]);
+      setResult(details);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.background,
+    },
+    header: {
+      backgroundColor: theme.primary,
+      padding: 16,
+      paddingTop: 8,
+    },
+    headerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    backButton: {
+      padding: 8,
+      marginRight: 8,
+    },
+    backText: {
+      fontSize: 24,
+      color: theme.textOnPrimary,
+    },
+    headerTitle: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: theme.textOnPrimary,
+      flex: 1,
+    },
+    favoriteButton: {
+      padding: 8,
+    },
+    favoriteText: {
+      fontSize: 24,
+      color: theme.textOnPrimary,
+    },
+    headerSubtitle: {
+      fontSize: 14,
+      color: theme.textOnPrimary,
+      opacity: 0.9,
+      marginLeft: 48,
+    },
+    section: {
+      backgroundColor: theme.surface,
+      padding: 16,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      textTransform: 'uppercase',
+      marginBottom: 8,
+    },
+    infoRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: 4,
+    },
+    infoLabel: {
+      fontSize: 14,
+      color: theme.textSecondary,
+    },
+    infoValue: {
+      fontSize: 14,
+      color: theme.text,
+      fontWeight: '500',
+      flexShrink: 1,
+      textAlign: 'right',
+      marginLeft: 16,
+    },
+    listRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: 8,
+      borderTopWidth: 1,
+      borderTopColor: theme.border,
+    },
+    listPrimary: {
+      fontSize: 15,
+      fontWeight: 'bold',
+      color: theme.text,
+    },
+    listSecondary: {
+      fontSize: 13,
+      color: theme.textSecondary,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: theme.textSecondary,
+      fontStyle: 'italic',
+    },
+    notice: {
+      borderWidth: 1,
+      borderRadius: 8,
+      padding: 12,
+      margin: 16,
+      marginBottom: 0,
+    },
+    noticeText: {
+      fontSize: 13,
+      color: theme.text,
+    },
+  });
+
+  const details = result?.details;
+  const park = details?.park;
+
+  const renderInfoRow = (label: string, value: string | null | undefined) =>
+    value ? (
+      <View style={styles.infoRow}>
+        <Text style={styles.infoLabel}>{label}</Text>
+        <Text style={styles.infoValue}>{value}</Text>
+      </View>
+    ) : null;
+
+  const location = park
+    ? [park.locationName, park.locationDesc, park.entityName].filter(Boolean).join(' · ')
+    : null;
+  const coordinates = park && park.latitude != null && park.longitude != null
+    ? `${park.latitude.toFixed(4)}, ${park.longitude.toFixed(4)}`
+    : null;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar backgroundColor={theme.primary} barStyle={theme.statusBarStyle} />
+      <View style={styles.header}>
+        <View style={styles.headerRow}>
+          <TouchableOpacity style={styles.backButton} onPress={onBack}>
+            <Text style={styles.backText}>←</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{parkReference}</Text>
+          <TouchableOpacity
+            style={styles.favoriteButton}
+            onPress={() => setParkFavorite(parkReference, !isFavorite)}
+          >
+            <Text style={styles.favoriteText}>{isFavorite ? '★' : '☆'}</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.headerSubtitle} numberOfLines={2}>
+          {loading ? 'Loading...' : park?.name ?? 'Park details unavailable'}
+        </Text>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={{ marginTop: 32 }} color={theme.primary} />
+      ) : (
+        <ScrollView
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={handleRefresh}
+              colors={[theme.primary]}
+              tintColor={theme.primary}
+            />
+          }
+        >
+          {result?.error && (
+            <View
+              style={[
+                styles.notice,
+                details
+                  ? { borderColor: theme.warning, backgroundColor: theme.warning + '20' }
+                  : { borderColor: theme.error, backgroundColor: theme.error + '20' },
+              ]}
+            >
+              <Text style={styles.noticeText}>
+                {details
+                  ? `Couldn't refresh park data (${result.error}). Showing the copy saved ${new Date(details.fetchedAt).toLocaleString()}.`
+                  : `Couldn't load park data: ${result.error}`}
+              </Text>
+            </View>
+          )}
+
+          {park && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Park</Text>
+              {renderInfoRow('Name', park.name)}
+              {renderInfoRow('Type', park.parktypeDesc)}
+              {renderInfoRow('Location', location)}
+              {renderInfoRow('Grid', park.grid6 || park.grid4)}
+              {renderInfoRow('Coordinates', coordinates)}
+              {renderInfoRow('Website', park.website)}
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              My QSOs ({qsos.length})
+            </Text>
+            {qsos.length === 0 ? (
+              <Text style={styles.emptyText}>No QSOs with this park in your log</Text>
+            ) : (
+              qsos.map(entry => (
+                <View key={entry.id} style={styles.listRow}>
+                  <View>
+                    <Text style={styles.listPrimary}>{entry.callsign}</Text>
+                    <Text style={styles.listSecondary}>
+                      {formatFrequency(entry.frequency)} · {getBand(entry.frequency)} · {entry.mode}
+                    </Text>
+                  </View>
+                  <Text style={styles.listSecondary}>
+                    {new Date(entry.timestamp).toLocaleDateString()}
+                  </Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          {details && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Recent Activations</Text>
+              {details.recentActivations.length === 0 ? (
+                <Text style={styles.emptyText}>No recent activations</Text>
+              ) : (
+                details.recentActivations.map(activation => (
+                  <View
+                    key={`${activation.activeCallsign}-${activation.qso_date}`}
+                    style={styles.listRow}
+                  >
+                    <View>
+                      <Text style={styles.listPrimary}>{activation.activeCallsign}</Text>
+                      <Text style={styles.listSecondary}>
+                        {activation.totalQSOs} QSOs · CW {activation.qsosCW} · Data {activation.qsosDATA} · Phone {activation.qsosPHONE}
+                      </Text>
+                    </View>
+                    <Text style={styles.listSecondary}>
+                      {formatActivationDate(activation.qso_date)}
+                    </Text>
+                  </View>
+                ))
+              )}
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
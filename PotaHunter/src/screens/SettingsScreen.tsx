@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -14,7 +14,46 @@ import {
 } from 'react-native';
 import { useTheme } from '../context/ThemeContext';
 import { useSettings } from '../context/SettingsContext';
+import { ThemeMode } from '../theme/colors';
 import { testHRDConnection } from '../services/hrdService';
+import {
+  AlertRule,
+  createAlertRuleId,
+  describeAlertRule,
+  hasAlertCriteria,
+} from '../services/alertService';
+import { formatLatLon, getStationLocation, isValidLatLon } from '../services/geodesyService';
+import { isValidGrid, normalizeGrid } from '../services/maidenheadService';
+import {
+  Watchlist,
+  exportWatchlist,
+  getWatchlist,
+  importWatchlist,
+  importWatchlistText,
+  setActivatorWatched,
+  setParkFavorite,
+  subscribeToWatchlist,
+} from '../services/watchlistService';
+import {
+  IGNORE_DURATION_OPTIONS,
+  IgnoreEntry,
+  IgnoreEntryType,
+  addIgnoreEntry,
+  describeIgnoreExpiry,
+  getIgnoreList,
+  isValidIgnoreValue,
+  removeIgnoreEntry,
+  subscribeToIgnoreList,
+} from '../services/ignoreListService';
+
+// Auto-refresh interval choices (seconds)
+const POLL_INTERVAL_OPTIONS = [30, 60, 120, 300];
+
+const THEME_MODE_LABELS: Record<ThemeMode, string> = {
+  light: 'Light',
+  dark: 'Dark',
+  auto: 'Auto',
+};
 
 interface SettingsScreenProps {
   onBack: () => void;
@@ -22,14 +61,64 @@ interface SettingsScreenProps {
 }
 
 export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack, onOpenLogs }) => {
-  const { theme, themeName, setTheme, availableThemes } = useTheme();
-  const { hrdSettings, updateHRDSettings } = useSettings();
+  const { theme, themeName, setTheme, themeMode, setThemeMode, availableThemes } = useTheme();
+  const {
+    hrdSettings,
+    updateHRDSettings,
+    pollingSettings,
+    updatePollingSettings,
+    alertSettings,
+    updateAlertSettings,
+    stationSettings,
+    updateStationSettings,
+    reSpotSettings,
+    updateReSpotSettings,
+  } = useSettings();
 
   const [ipAddress, setIpAddress] = useState(hrdSettings.ipAddress);
   const [port, setPort] = useState(hrdSettings.port.toString());
   const [myCallsign, setMyCallsign] = useState(hrdSettings.myCallsign);
   const [isTesting, setIsTesting] = useState(false);
 
+  // New alert rule form
+  const [ruleName, setRuleName] = useState('');
+  const [ruleActivator, setRuleActivator] = useState('');
+  const [rulePark, setRulePark] = useState('');
+  const [ruleLocation, setRuleLocation] = useState('');
+  const [ruleBand, setRuleBand] = useState('');
+  const [ruleMode, setRuleMode] = useState('');
+  const [ruleNeededOnly, setRuleNeededOnly] = useState(false);
+
+  // Watchlist
+  const [watchlist, setWatchlist] = useState<Watchlist>({ activators: [], parks: [] });
+  const [newWatchEntry, setNewWatchEntry] = useState('');
+
+  useEffect(() => {
+    getWatchlist().then(setWatchlist);
+    return subscribeToWatchlist(setWatchlist);
+  }, []);
+
+  // Ignore list
+  const [ignoreList, setIgnoreList] = useState<IgnoreEntry[]>([]);
+  const [ignoreType, setIgnoreType] = useState<IgnoreEntryType>('activator');
+  const [ignoreValue, setIgnoreValue] = useState('');
+  const [ignoreDurationIndex, setIgnoreDurationIndex] = useState(IGNORE_DURATION_OPTIONS.length - 1);
+
+  useEffect(() => {
+    getIgnoreList().then(setIgnoreList);
+    return subscribeToIgnoreList(setIgnoreList);
+  }, []);
+
+  // My location
+  const [myGrid, setMyGrid] = useState(stationSettings.grid);
+  const [myLatitude, setMyLatitude] = useState(stationSettings.latitude?.toString() ?? '');
+  const [myLongitude, setMyLongitude] = useState(stationSettings.longitude?.toString() ?? '');
+
+  // Re-spotting
+  const [newTemplate, setNewTemplate] = useState('');
+
+  const stationLocation = getStationLocation(stationSettings);
+
   const styles = StyleSheet.create({
     container: {
       flex: 1,
@@ -183,6 +272,40 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack, onOpenLo
       borderRadius: 4,
       marginRight: 8,
     },
+    ruleRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    ruleInfo: {
+      flex: 1,
+      marginRight: 8,
+    },
+    ruleName: {
+      fontSize: 16,
+      color: theme.text,
+      fontWeight: '500',
+    },
+    ruleDescription: {
+      fontSize: 13,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    deleteText: {
+      color: theme.error,
+      fontSize: 14,
+      fontWeight: '600',
+      marginLeft: 12,
+    },
+    subsectionTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: theme.text,
+      marginTop: 16,
+      marginBottom: 12,
+    },
   });
 
   const handleSaveHRD = async () => {
@@ -225,9 +348,153 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack, onOpenLo
     await updateHRDSettings({ enabled: value });
   };
 
+  const resetRuleForm = () => {
+    setRuleName('');
+    setRuleActivator('');
+    setRulePark('');
+    setRuleLocation('');
+    setRuleBand('');
+    setRuleMode('');
+    setRuleNeededOnly(false);
+  };
+
+  const handleAddRule = async () => {
+    const rule: AlertRule = {
+      id: createAlertRuleId(),
+      name: ruleName.trim(),
+      enabled: true,
+      activator: ruleActivator.trim().toUpperCase() || undefined,
+      parkReference: rulePark.trim().toUpperCase() || undefined,
+      location: ruleLocation.trim().toUpperCase() || undefined,
+      band: ruleBand.trim().toLowerCase() || undefined,
+      mode: ruleMode.trim().toUpperCase() || undefined,
+      neededOnly: ruleNeededOnly || undefined,
+    };
+
+    if (!hasAlertCriteria(rule)) {
+      Alert.alert('Missing Criteria', 'Set at least one of activator, park, location, band, mode or needed only');
+      return;
+    }
+
+    if (!rule.name) {
+      rule.name = describeAlertRule(rule);
+    }
+
+    await updateAlertSettings({ rules: [...alertSettings.rules, rule] });
+    resetRuleForm();
+  };
+
+  const handleToggleRule = async (id: string, enabled: boolean) => {
+    await updateAlertSettings({
+      rules: alertSettings.rules.map(rule => (rule.id === id ? { ...rule, enabled } : rule)),
+    });
+  };
+
+  const handleDeleteRule = (rule: AlertRule) => {
+    Alert.alert('Delete Alert Rule', `Delete "${rule.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          updateAlertSettings({
+            rules: alertSettings.rules.filter(r => r.id !== rule.id),
+          }),
+      },
+    ]);
+  };
+
+  const handleAddWatchEntry = async () => {
+    if (!newWatchEntry.trim()) {
+      return;
+    }
+    // A single callsign or park reference parses the same way as an imported line
+    const result = await importWatchlistText(newWatchEntry);
+    if (result.added > 0) {
+      setNewWatchEntry('');
+    } else if (result.skipped > 0) {
+      Alert.alert('Already Watched', `${newWatchEntry.trim().toUpperCase()} is already on the watchlist`);
+    } else {
+      Alert.alert('Invalid Entry', 'Enter an activator callsign (e.g. W1ABC) or a park reference (e.g. US-0001)');
+    }
+  };
+
+  const handleImportWatchlist = async () => {
+    const result = await importWatchlist();
+    if (result) {
+      Alert.alert(result.success ? 'Watchlist Imported' : 'Import Failed', result.message);
+    }
+  };
+
+  const handleExportWatchlist = async () => {
+    const result = await exportWatchlist();
+    if (!result.success) {
+      Alert.alert('Export Failed', result.message);
+    }
+  };
+
+  const handleAddIgnoreEntry = async () => {
+    if (!isValidIgnoreValue(ignoreType, ignoreValue)) {
+      Alert.alert(
+        'Invalid Entry',
+        ignoreType === 'activator'
+          ? 'Enter an activator callsign (e.g. W1ABC)'
+          : 'Enter a park reference (e.g. US-0001) or a prefix ending in * (e.g. VK-*)'
+      );
+      return;
+    }
+
+    const { durationMs } = IGNORE_DURATION_OPTIONS[ignoreDurationIndex];
+    if (await addIgnoreEntry(ignoreType, ignoreValue, durationMs)) {
+      setIgnoreValue('');
+    }
+  };
+
+  const handleSaveGrid = async () => {
+    const grid = normalizeGrid(myGrid);
+    if (grid && !isValidGrid(grid)) {
+      Alert.alert('Invalid Grid', 'Enter a 4, 6 or 8 character Maidenhead grid (e.g. FN42, FN42ab or FN42ab12)');
+      return;
+    }
+    setMyGrid(grid);
+    await updateStationSettings({ grid });
+  };
+
+  const handleSaveCoordinates = async () => {
+    const latitude = myLatitude.trim() ? parseFloat(myLatitude) : null;
+    const longitude = myLongitude.trim() ? parseFloat(myLongitude) : null;
+    if (latitude !== null && longitude !== null && !isValidLatLon(latitude, longitude)) {
+      Alert.alert('Invalid Location', 'Latitude must be -90 to 90 and longitude -180 to 180 (decimal degrees)');
+      return;
+    }
+    await updateStationSettings({
+      latitude: latitude !== null && Number.isFinite(latitude) ? latitude : null,
+      longitude: longitude !== null && Number.isFinite(longitude) ? longitude : null,
+    });
+  };
+
+  const handleAddTemplate = async () => {
+    const template = newTemplate.trim();
+    if (!template) {
+      return;
+    }
+    if (reSpotSettings.templates.includes(template)) {
+      Alert.alert('Duplicate Template', 'That template already exists');
+      return;
+    }
+    await updateReSpotSettings({ templates: [...reSpotSettings.templates, template] });
+    setNewTemplate('');
+  };
+
+  const handleDeleteTemplate = (template: string) => {
+    updateReSpotSettings({
+      templates: reSpotSettings.templates.filter(t => t !== template),
+    });
+  };
+
   return (
     <SafeAreaView style={styles.container}>
-      <StatusBar backgroundColor={theme.primary} barStyle="light-content" />
+      <StatusBar backgroundColor={theme.primary} barStyle={theme.statusBarStyle} />
 
       <View style={styles.header}>
         <TouchableOpacity style={styles.backButton} onPress={onBack}>
@@ -334,6 +601,457 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack, onOpenLo
           </Text>
         </View>
 
+        {/* Spot Updates */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Spot Updates</Text>
+
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Auto Refresh</Text>
+            <Switch
+              value={pollingSettings.enabled}
+              onValueChange={(value) => updatePollingSettings({ enabled: value })}
+              trackColor={{ false: theme.border, true: theme.primaryLight }}
+              thumbColor={pollingSettings.enabled ? theme.primary : theme.surfaceVariant}
+            />
+          </View>
+
+          <Text style={[styles.inputLabel, { marginTop: 12 }]}>Refresh Interval</Text>
+          <View style={styles.themeSelector}>
+            {POLL_INTERVAL_OPTIONS.map((seconds) => (
+              <TouchableOpacity
+                key={seconds}
+                style={[
+                  styles.themeOption,
+                  pollingSettings.intervalSeconds === seconds && styles.themeOptionSelected,
+                ]}
+                onPress={() => updatePollingSettings({ intervalSeconds: seconds })}
+                disabled={!pollingSettings.enabled}
+              >
+                <Text
+                  style={[
+                    styles.themeOptionText,
+                    pollingSettings.intervalSeconds === seconds && styles.themeOptionTextSelected,
+                  ]}
+                >
+                  {seconds < 60 ? `${seconds}s` : `${seconds / 60} min`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.statusText}>
+            Spots refresh in the background while the app is open. Updates slow down automatically if the POTA API is unreachable.
+          </Text>
+        </View>
+
+        {/* Spot Alerts */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Spot Alerts</Text>
+
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Alert Sound</Text>
+            <Switch
+              value={alertSettings.soundEnabled}
+              onValueChange={(value) => updateAlertSettings({ soundEnabled: value })}
+              trackColor={{ false: theme.border, true: theme.primaryLight }}
+              thumbColor={alertSettings.soundEnabled ? theme.primary : theme.surfaceVariant}
+            />
+          </View>
+
+          {alertSettings.rules.length === 0 ? (
+            <Text style={styles.statusText}>No alert rules yet</Text>
+          ) : (
+            alertSettings.rules.map((rule) => (
+              <View key={rule.id} style={styles.ruleRow}>
+                <View style={styles.ruleInfo}>
+                  <Text style={styles.ruleName}>{rule.name}</Text>
+                  <Text style={styles.ruleDescription}>{describeAlertRule(rule)}</Text>
+                </View>
+                <Switch
+                  value={rule.enabled}
+                  onValueChange={(value) => handleToggleRule(rule.id, value)}
+                  trackColor={{ false: theme.border, true: theme.primaryLight }}
+                  thumbColor={rule.enabled ? theme.primary : theme.surfaceVariant}
+                />
+                <TouchableOpacity onPress={() => handleDeleteRule(rule)}>
+                  <Text style={styles.deleteText}>Delete</Text>
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+
+          <Text style={styles.subsectionTitle}>New Rule</Text>
+
+          <View style={styles.inputRow}>
+            <Text style={styles.inputLabel}>Name</Text>
+            <TextInput
+              style={styles.input}
+              value={ruleName}
+              onChangeText={setRuleName}
+              placeholder="20m CW needed"
+              placeholderTextColor={theme.textSecondary}
+            />
+          </View>
+
+          <View style={styles.inputRow}>
+            <Text style={styles.inputLabel}>Activator</Text>
+            <TextInput
+              style={styles.input}
+              value={ruleActivator}
+              onChangeText={setRuleActivator}
+              placeholder="W1ABC"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+          </View>
+
+          <View style={styles.inputRow}>
+            <Text style={styles.inputLabel}>Park</Text>
+            <TextInput
+              style={styles.input}
+              value={rulePark}
+              onChangeText={setRulePark}
+              placeholder="US-0001 or VE-*"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+          </View>
+
+          <View style={styles.inputRow}>
+            <Text style={styles.inputLabel}>Location</Text>
+            <TextInput
+              style={styles.input}
+              value={ruleLocation}
+              onChangeText={setRuleLocation}
+              placeholder="US-ME"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+          </View>
+
+          <View style={styles.inputRow}>
+            <Text style={styles.inputLabel}>Band</Text>
+            <TextInput
+              style={styles.input}
+              value={ruleBand}
+              onChangeText={setRuleBand}
+              placeholder="20m"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+
+          <View style={styles.inputRow}>
+            <Text style={styles.inputLabel}>Mode</Text>
+            <TextInput
+              style={styles.input}
+              value={ruleMode}
+              onChangeText={setRuleMode}
+              placeholder="CW"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+          </View>
+
+          <View style={[styles.row, styles.rowLast]}>
+            <Text style={styles.rowLabel}>Needed Only</Text>
+            <Switch
+              value={ruleNeededOnly}
+              onValueChange={setRuleNeededOnly}
+              trackColor={{ false: theme.border, true: theme.primaryLight }}
+              thumbColor={ruleNeededOnly ? theme.primary : theme.surfaceVariant}
+            />
+          </View>
+
+          <TouchableOpacity style={styles.button} onPress={handleAddRule}>
+            <Text style={styles.buttonText}>Add Rule</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.statusText}>
+            Rules are checked against each new spot. A spot alerts only once, even if it is re-spotted.
+          </Text>
+        </View>
+
+        {/* Watchlist */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Watchlist</Text>
+
+          <Text style={[styles.subsectionTitle, { marginTop: 0 }]}>Watched Activators</Text>
+          {watchlist.activators.length === 0 ? (
+            <Text style={styles.statusText}>Star an activator on a spot to watch them</Text>
+          ) : (
+            watchlist.activators.map((callsign) => (
+              <View key={callsign} style={styles.ruleRow}>
+                <View style={styles.ruleInfo}>
+                  <Text style={styles.ruleName}>{callsign}</Text>
+                </View>
+                <TouchableOpacity onPress={() => setActivatorWatched(callsign, false)}>
+                  <Text style={styles.deleteText}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+
+          <Text style={styles.subsectionTitle}>Favorite Parks</Text>
+          {watchlist.parks.length === 0 ? (
+            <Text style={styles.statusText}>Star a park on a spot to add it</Text>
+          ) : (
+            watchlist.parks.map((reference) => (
+              <View key={reference} style={styles.ruleRow}>
+                <View style={styles.ruleInfo}>
+                  <Text style={styles.ruleName}>{reference}</Text>
+                </View>
+                <TouchableOpacity onPress={() => setParkFavorite(reference, false)}>
+                  <Text style={styles.deleteText}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+
+          <View style={[styles.inputRow, { marginTop: 16 }]}>
+            <Text style={styles.inputLabel}>Add</Text>
+            <TextInput
+              style={styles.input}
+              value={newWatchEntry}
+              onChangeText={setNewWatchEntry}
+              placeholder="W1ABC or US-0001"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+          </View>
+
+          <TouchableOpacity style={styles.button} onPress={handleAddWatchEntry}>
+            <Text style={styles.buttonText}>Add to Watchlist</Text>
+          </TouchableOpacity>
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, styles.buttonSecondary, styles.buttonHalf]}
+              onPress={handleImportWatchlist}
+            >
+              <Text style={[styles.buttonText, styles.buttonTextSecondary]}>Import</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.buttonSecondary, styles.buttonHalf]}
+              onPress={handleExportWatchlist}
+            >
+              <Text style={[styles.buttonText, styles.buttonTextSecondary]}>Export</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.statusText}>
+            Watched activators are pinned to the top of the spot list and raise an alert when spotted.
+            Import accepts the exported JSON or a CSV of callsigns and park references.
+          </Text>
+        </View>
+
+        {/* Ignore List */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Ignore List</Text>
+
+          {ignoreList.length === 0 ? (
+            <Text style={styles.statusText}>No ignored activators or parks</Text>
+          ) : (
+            ignoreList.map((entry) => (
+              <View key={entry.id} style={styles.ruleRow}>
+                <View style={styles.ruleInfo}>
+                  <Text style={styles.ruleName}>{entry.value}</Text>
+                  <Text style={styles.ruleDescription}>
+                    {entry.type === 'activator' ? 'Activator' : 'Park'} · {describeIgnoreExpiry(entry)}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => removeIgnoreEntry(entry.id)}>
+                  <Text style={styles.deleteText}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+
+          <Text style={styles.subsectionTitle}>Ignore</Text>
+          <View style={styles.themeSelector}>
+            {(['activator', 'park'] as const).map((type) => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.themeOption, ignoreType === type && styles.themeOptionSelected]}
+                onPress={() => setIgnoreType(type)}
+              >
+                <Text
+                  style={[styles.themeOptionText, ignoreType === type && styles.themeOptionTextSelected]}
+                >
+                  {type === 'activator' ? 'Activator' : 'Park'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={[styles.inputRow, { marginTop: 8 }]}>
+            <Text style={styles.inputLabel}>{ignoreType === 'activator' ? 'Callsign' : 'Park'}</Text>
+            <TextInput
+              style={styles.input}
+              value={ignoreValue}
+              onChangeText={setIgnoreValue}
+              placeholder={ignoreType === 'activator' ? 'W1ABC' : 'US-0001 or VK-*'}
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+          </View>
+
+          <Text style={styles.inputLabel}>For</Text>
+          <View style={styles.themeSelector}>
+            {IGNORE_DURATION_OPTIONS.map((option, index) => (
+              <TouchableOpacity
+                key={option.label}
+                style={[styles.themeOption, ignoreDurationIndex === index && styles.themeOptionSelected]}
+                onPress={() => setIgnoreDurationIndex(index)}
+              >
+                <Text
+                  style={[
+                    styles.themeOptionText,
+                    ignoreDurationIndex === index && styles.themeOptionTextSelected,
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TouchableOpacity style={styles.button} onPress={handleAddIgnoreEntry}>
+            <Text style={styles.buttonText}>Add to Ignore List</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.statusText}>
+            Ignored spots are hidden from the spot list and never raise alerts
+          </Text>
+        </View>
+
+        {/* My Location */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>My Location</Text>
+
+          <View style={styles.inputRow}>
+            <Text style={styles.inputLabel}>My Grid</Text>
+            <TextInput
+              style={styles.input}
+              value={myGrid}
+              onChangeText={setMyGrid}
+              onEndEditing={handleSaveGrid}
+              placeholder="FN42"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+          </View>
+
+          <Text style={styles.inputLabel}>Measure Distances From</Text>
+          <View style={styles.themeSelector}>
+            {(['grid', 'coordinates'] as const).map((source) => (
+              <TouchableOpacity
+                key={source}
+                style={[
+                  styles.themeOption,
+                  stationSettings.locationSource === source && styles.themeOptionSelected,
+                ]}
+                onPress={() => updateStationSettings({ locationSource: source })}
+              >
+                <Text
+                  style={[
+                    styles.themeOptionText,
+                    stationSettings.locationSource === source && styles.themeOptionTextSelected,
+                  ]}
+                >
+                  {source === 'grid' ? 'Grid' : 'Lat/Lon'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {stationSettings.locationSource === 'coordinates' && (
+            <>
+              <View style={[styles.inputRow, { marginTop: 8 }]}>
+                <Text style={styles.inputLabel}>Latitude</Text>
+                <TextInput
+                  style={styles.input}
+                  value={myLatitude}
+                  onChangeText={setMyLatitude}
+                  onEndEditing={handleSaveCoordinates}
+                  placeholder="42.36"
+                  placeholderTextColor={theme.textSecondary}
+                  keyboardType="numbers-and-punctuation"
+                />
+              </View>
+              <View style={styles.inputRow}>
+                <Text style={styles.inputLabel}>Longitude</Text>
+                <TextInput
+                  style={styles.input}
+                  value={myLongitude}
+                  onChangeText={setMyLongitude}
+                  onEndEditing={handleSaveCoordinates}
+                  placeholder="-71.06"
+                  placeholderTextColor={theme.textSecondary}
+                  keyboardType="numbers-and-punctuation"
+                />
+              </View>
+            </>
+          )}
+
+          <Text style={styles.statusText}>
+            {stationLocation
+              ? `Spot distances and bearings are measured from ${formatLatLon(stationLocation)}`
+              : 'Set your grid or coordinates to see distance and bearing to each spot'}
+          </Text>
+        </View>
+
+        {/* Re-Spotting */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Re-Spotting</Text>
+
+          <Text style={[styles.subsectionTitle, { marginTop: 0 }]}>Comment Templates</Text>
+
+          {reSpotSettings.templates.length === 0 ? (
+            <Text style={styles.statusText}>No templates yet</Text>
+          ) : (
+            reSpotSettings.templates.map((template) => (
+              <View key={template} style={styles.ruleRow}>
+                <View style={styles.ruleInfo}>
+                  <Text style={styles.ruleName}>{template}</Text>
+                </View>
+                <TouchableOpacity onPress={() => handleDeleteTemplate(template)}>
+                  <Text style={styles.deleteText}>Delete</Text>
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+
+          <View style={[styles.inputRow, { marginTop: 16 }]}>
+            <Text style={styles.inputLabel}>New Template</Text>
+            <TextInput
+              style={styles.input}
+              value={newTemplate}
+              onChangeText={setNewTemplate}
+              placeholder="tnx {park} 59 from {grid}"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+
+          <TouchableOpacity style={styles.button} onPress={handleAddTemplate}>
+            <Text style={styles.buttonText}>Add Template</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.statusText}>
+            Placeholders: {'{park} {call} {freq} {mode} {mycall} {grid}'}
+          </Text>
+        </View>
+
         {/* Internal Logs */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Internal Logs</Text>
@@ -376,6 +1094,29 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack, onOpenLo
               </TouchableOpacity>
             ))}
           </View>
+
+          <Text style={[styles.inputLabel, { marginTop: 8 }]}>Mode</Text>
+          <View style={styles.themeSelector}>
+            {(Object.keys(THEME_MODE_LABELS) as ThemeMode[]).map((mode) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.themeOption, themeMode === mode && styles.themeOptionSelected]}
+                onPress={() => setThemeMode(mode)}
+              >
+                <Text
+                  style={[styles.themeOptionText, themeMode === mode && styles.themeOptionTextSelected]}
+                >
+                  {THEME_MODE_LABELS[mode]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.statusText}>
+            {themeName === 'night'
+              ? 'Night is a red-on-black theme for operating in the dark and is always dark'
+              : 'Auto follows the light or dark setting of your device'}
+          </Text>
         </View>
       </ScrollView>
     </SafeAreaView>
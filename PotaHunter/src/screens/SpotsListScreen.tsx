@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   FlatList,
@@ -16,76 +16,345 @@ import { useSettings } from '../context/SettingsContext';
 import { SpotCard } from '../components/SpotCard';
 import { FilterBar } from '../components/FilterBar';
 import { LogModal, QSOData } from '../components/LogModal';
-import { SpotWithUserData, getBand, formatFrequency } from '../types/spot';
-import { fetchSpotsWithUserData } from '../services/api';
-import { sendToHRD, logQSOToHRD } from '../services/hrdService';
-import { reSpotActivator } from '../services/potaService';
-import { saveToInternalLog } from '../services/internalLogService';
+import { AlertBanner } from '../components/AlertBanner';
+import { ReSpotSheet, ReSpotData } from '../components/ReSpotSheet';
+import { ActivationGroupCard } from '../components/ActivationGroupCard';
+import { SpotMap } from '../components/SpotMap';
+import { SpotWithUserData, formatFrequency, parseParkReferences } from '../types/spot';
+import { fetchSpotsWithUserData, enrichSpotsWithUserData } from '../services/api';
+import { sendToHRD, logQSOToHRD, QSOLogData } from '../services/hrdService';
+import { sendReSpot } from '../services/reSpotQueueService';
+import { saveToInternalLog, findDuplicateQSO } from '../services/internalLogService';
+import { enqueueHRDDelivery } from '../services/hrdOutboxService';
 import { markSpotAsHunted, getHuntedSpotIds } from '../services/huntedSpotsService';
+import { getWorkedParkIndex, subscribeToHuntedParks } from '../services/huntedParksService';
+import { mergeSpots } from '../services/spotPollingService';
+import { SpotAlert, collectSpotAlerts, playAlertSound } from '../services/alertService';
+import { groupSpotsByActivation } from '../services/spotGroupingService';
+import { matchesSpotSearch } from '../services/spotSearchService';
+import { sortSpots } from '../services/spotSortService';
+import {
+  FilterPreset,
+  createFilterPresetId,
+  matchesBandSelection,
+  matchesModeSelection,
+} from '../services/filterPresetService';
+import { getActiveActivation, subscribeToActivations } from '../services/activationService';
+import {
+  Watchlist,
+  getWatchlist,
+  getWatchlistAlertRules,
+  isActivatorWatched,
+  isParkFavorite,
+  setActivatorWatched,
+  setParkFavorite,
+  subscribeToWatchlist,
+} from '../services/watchlistService';
+import {
+  IgnoreEntry,
+  getIgnoreList,
+  isSpotIgnored,
+  subscribeToIgnoreList,
+} from '../services/ignoreListService';
+import { normalizeGrid } from '../services/maidenheadService';
+import { SpotPath, getSpotPath, getStationGrid, getStationLocation } from '../services/geodesyService';
+import { useSpotPolling } from '../hooks/useSpotPolling';
 
 interface SpotsListScreenProps {
   onOpenSettings: () => void;
+  onOpenActivation: () => void;
+  onOpenPark: (reference: string) => void;
 }
 
-export const SpotsListScreen: React.FC<SpotsListScreenProps> = ({ onOpenSettings }) => {
+export const SpotsListScreen: React.FC<SpotsListScreenProps> = ({
+  onOpenSettings,
+  onOpenActivation,
+  onOpenPark,
+}) => {
   const { theme } = useTheme();
-  const { hrdSettings } = useSettings();
+  const {
+    hrdSettings,
+    pollingSettings,
+    alertSettings,
+    stationSettings,
+    reSpotSettings,
+    spotListSettings,
+    updateSpotListSettings,
+    isLoading: settingsLoading,
+  } = useSettings();
   const [spots, setSpots] = useState<SpotWithUserData[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Filter state
-  const [bandFilter, setBandFilter] = useState<string>('all');
-  const [modeFilter, setModeFilter] = useState<string>('all');
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  const [bandFilter, setBandFilter] = useState<string[]>([]);  // Empty means all
+  const [modeFilter, setModeFilter] = useState<string[]>([]);
   const [hideHunted, setHideHunted] = useState<boolean>(false);
+  const [neededOnly, setNeededOnly] = useState<boolean>(false);
+  const [groupByActivation, setGroupByActivation] = useState<boolean>(false);
+  const [distanceFilter, setDistanceFilter] = useState<string>('all');  // Max km, or 'all'
+
+  // List or map view, and the spot selected on the map
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  const [selectedMapSpotId, setSelectedMapSpotId] = useState<number | null>(null);
+
+  // Restore the active filter preset once settings have loaded
+  useEffect(() => {
+    if (settingsLoading) {
+      return;
+    }
+    const preset = spotListSettings.presets.find(p => p.id === spotListSettings.activePresetId);
+    if (preset) {
+      setBandFilter(preset.bands);
+      setModeFilter(preset.modes);
+    }
+  }, [settingsLoading]);
+
+  const handleApplyPreset = (preset: FilterPreset | null) => {
+    setBandFilter(preset ? preset.bands : []);
+    setModeFilter(preset ? preset.modes : []);
+    updateSpotListSettings({ activePresetId: preset ? preset.id : null });
+  };
+
+  const handleSavePreset = (name: string) => {
+    const preset: FilterPreset = {
+      id: createFilterPresetId(),
+      name,
+      bands: bandFilter,
+      modes: modeFilter,
+    };
+    updateSpotListSettings({
+      presets: [...spotListSettings.presets, preset],
+      activePresetId: preset.id,
+    });
+  };
+
+  const handleDeletePreset = (preset: FilterPreset) => {
+    updateSpotListSettings({
+      presets: spotListSettings.presets.filter(p => p.id !== preset.id),
+      activePresetId: spotListSettings.activePresetId === preset.id
+        ? null
+        : spotListSettings.activePresetId,
+    });
+  };
+
+  // Changing the bands or modes by hand leaves the active preset
+  const handleBandChange = (bands: string[]) => {
+    setBandFilter(bands);
+    if (spotListSettings.activePresetId) {
+      updateSpotListSettings({ activePresetId: null });
+    }
+  };
+
+  const handleModeChange = (modes: string[]) => {
+    setModeFilter(modes);
+    if (spotListSettings.activePresetId) {
+      updateSpotListSettings({ activePresetId: null });
+    }
+  };
 
   // Log modal state
   const [logModalVisible, setLogModalVisible] = useState(false);
   const [spotToLog, setSpotToLog] = useState<SpotWithUserData | null>(null);
+  const [spotToReSpot, setSpotToReSpot] = useState<SpotWithUserData | null>(null);
+
+  // Parks of the activation in progress, used as my park for park-to-park QSOs
+  const [activationParks, setActivationParks] = useState('');
+
+  useEffect(() => {
+    const loadActivationParks = async () => {
+      const activation = await getActiveActivation();
+      setActivationParks(activation ? activation.parkReferences.join(',') : '');
+    };
+
+    loadActivationParks();
+    return subscribeToActivations(() => {
+      loadActivationParks();
+    });
+  }, []);
+
+  // Starred activators and favorite parks
+  const [watchlist, setWatchlist] = useState<Watchlist>({ activators: [], parks: [] });
+
+  useEffect(() => {
+    getWatchlist().then(setWatchlist);
+    return subscribeToWatchlist(setWatchlist);
+  }, []);
+
+  const handleToggleWatch = (spot: SpotWithUserData) => {
+    setActivatorWatched(spot.activator, !isActivatorWatched(watchlist, spot.activator));
+  };
+
+  const handleToggleFavoritePark = (spot: SpotWithUserData) => {
+    setParkFavorite(spot.reference, !isParkFavorite(watchlist, spot.reference));
+  };
+
+  // Activators and parks hidden from the list and alerts
+  const [ignoreList, setIgnoreList] = useState<IgnoreEntry[]>([]);
+
+  useEffect(() => {
+    getIgnoreList().then(setIgnoreList);
+    return subscribeToIgnoreList(setIgnoreList);
+  }, []);
+
+  // Alerts raised for newly arrived spots
+  const [activeAlerts, setActiveAlerts] = useState<SpotAlert[]>([]);
 
   // Hunted spots tracking
   const [huntedSpotIds, setHuntedSpotIds] = useState<Set<number>>(new Set());
 
-  // Mock hunted parks - in real app, load from storage
-  const [huntedParks] = useState<Set<string>>(
-    new Set(['US-0052', 'US-4178', 'K-0001']) // Example hunted parks
-  );
+  // Re-enrich spots whenever the hunted parks set changes (e.g. after logging a QSO)
+  useEffect(() => {
+    return subscribeToHuntedParks(workedParks => {
+      setSpots(prev => enrichSpotsWithUserData(prev, workedParks));
+    });
+  }, []);
+
+  // Set when a poll merges new spots in, so alerts are only checked once per poll
+  const spotsPolledRef = useRef(false);
+
+  // Read at poll time; changing them shouldn't re-alert spots still marked new
+  const alertSettingsRef = useRef(alertSettings);
+  alertSettingsRef.current = alertSettings;
+  const watchlistRef = useRef(watchlist);
+  watchlistRef.current = watchlist;
+  const ignoreListRef = useRef(ignoreList);
+  ignoreListRef.current = ignoreList;
+
+  // Evaluate alert rules (and watched activators) against newly arrived spots
+  useEffect(() => {
+    if (!spotsPolledRef.current) {
+      return;
+    }
+    spotsPolledRef.current = false;
+
+    const newSpots = spots.filter(
+      spot => spot.updateStatus === 'new' && !isSpotIgnored(spot, ignoreListRef.current)
+    );
+    if (newSpots.length === 0) {
+      return;
+    }
+
+    const { rules: alertRules, soundEnabled } = alertSettingsRef.current;
+    const rules = [...getWatchlistAlertRules(watchlistRef.current), ...alertRules];
+    const alerts = collectSpotAlerts(newSpots, rules);
+    if (alerts.length > 0) {
+      setActiveAlerts(prev => [...prev, ...alerts]);
+      if (soundEnabled) {
+        playAlertSound();
+      }
+    }
+  }, [spots]);
+
+  // Distance and bearing to each spot from my location (if set)
+  const myLocation = useMemo(() => getStationLocation(stationSettings), [stationSettings]);
+  const spotPaths = useMemo(() => {
+    const paths = new Map<number, SpotPath | null>();
+    if (myLocation) {
+      spots.forEach(spot => paths.set(spot.spotId, getSpotPath(myLocation, spot)));
+    }
+    return paths;
+  }, [spots, myLocation]);
+
+  // Distance sorting falls back to newest until my location is set
+  const sortMode = spotListSettings.sortMode === 'distance' && !myLocation
+    ? 'newest'
+    : spotListSettings.sortMode;
 
   // Filter spots based on selected filters
   const filteredSpots = useMemo(() => {
-    return spots.filter(spot => {
+    const maxDistanceKm = myLocation && distanceFilter !== 'all' ? Number(distanceFilter) : null;
+
+    const now = Date.now();
+    const filtered = spots.filter(spot => {
+      // Ignored activators and parks
+      if (isSpotIgnored(spot, ignoreList, now)) {
+        return false;
+      }
+
       // Hide hunted filter
-      if (hideHunted && huntedSpotIds.has(spot.spotId)) {
+      if (hideHunted && (spot.isHunted || huntedSpotIds.has(spot.spotId))) {
+        return false;
+      }
+
+      // Needed only filter (new park, band or mode)
+      if (neededOnly && (spot.neededStatus === 'worked' || huntedSpotIds.has(spot.spotId))) {
         return false;
       }
 
       // Band filter
-      if (bandFilter !== 'all') {
-        const spotBand = getBand(spot.frequency);
-        if (spotBand !== bandFilter) {
-          return false;
-        }
+      if (!matchesBandSelection(spot.frequency, bandFilter)) {
+        return false;
       }
 
       // Mode filter
-      if (modeFilter !== 'all') {
-        const spotMode = spot.mode.toUpperCase();
-        const filterMode = modeFilter.toUpperCase();
-
-        // Handle SSB matching (includes USB, LSB)
-        if (filterMode === 'SSB') {
-          if (!spotMode.includes('SSB') && spotMode !== 'USB' && spotMode !== 'LSB') {
-            return false;
-          }
-        } else if (!spotMode.includes(filterMode)) {
+      if (!matchesModeSelection(spot.mode, modeFilter)) {
+        return false;
+      }
+
+      // Free-text search
+      if (!matchesSpotSearch(spot, searchQuery)) {
+        return false;
+      }
+
+      // Distance filter (spots without a location can't be placed, so they're hidden)
+      if (maxDistanceKm !== null) {
+        const path = spotPaths.get(spot.spotId);
+        if (!path || path.distanceKm > maxDistanceKm) {
           return false;
         }
       }
 
       return true;
     });
-  }, [spots, bandFilter, modeFilter, hideHunted, huntedSpotIds]);
+
+    // Watched activators are pinned to the top, otherwise keeping the sort order
+    const sorted = sortSpots(filtered, sortMode, { paths: spotPaths, huntedSpotIds });
+    return [
+      ...sorted.filter(spot => isActivatorWatched(watchlist, spot.activator)),
+      ...sorted.filter(spot => !isActivatorWatched(watchlist, spot.activator)),
+    ];
+  }, [
+    spots,
+    searchQuery,
+    bandFilter,
+    modeFilter,
+    hideHunted,
+    neededOnly,
+    huntedSpotIds,
+    myLocation,
+    distanceFilter,
+    spotPaths,
+    sortMode,
+    watchlist,
+    ignoreList,
+  ]);
+
+  // Spot selected on the map (cleared if it's filtered out or expires)
+  const selectedMapSpot = useMemo(
+    () => filteredSpots.find(spot => spot.spotId === selectedMapSpotId) ?? null,
+    [filteredSpots, selectedMapSpotId]
+  );
+
+  // Re-spots of the same activator at the same park collapsed into one card
+  const activationGroups = useMemo(
+    () => (groupByActivation ? groupSpotsByActivation(filteredSpots) : []),
+    [filteredSpots, groupByActivation]
+  );
+
+  // Fetch the latest spots and merge them into the current list by spotId
+  const fetchAndMergeSpots = async () => {
+    const workedParks = await getWorkedParkIndex();
+    const data = await fetchSpotsWithUserData(workedParks);
+    spotsPolledRef.current = true;
+    setSpots(prev => mergeSpots(prev, data));
+
+    // Load hunted spot IDs
+    const hunted = await getHuntedSpotIds();
+    setHuntedSpotIds(hunted);
+  };
 
   const loadSpots = async (isRefresh = false) => {
     try {
@@ -94,12 +363,7 @@ export const SpotsListScreen: React.FC<SpotsListScreenProps> = ({ onOpenSettings
       }
       setError(null);
 
-      const data = await fetchSpotsWithUserData(huntedParks);
-      setSpots(data);
-
-      // Load hunted spot IDs
-      const hunted = await getHuntedSpotIds();
-      setHuntedSpotIds(hunted);
+      await fetchAndMergeSpots();
     } catch (err) {
       setError('Failed to load spots. Pull to refresh.');
       console.error(err);
@@ -113,10 +377,20 @@ export const SpotsListScreen: React.FC<SpotsListScreenProps> = ({ onOpenSettings
     loadSpots();
   }, []);
 
+  // Background polling (paused while the app is in the background)
+  const polling = useSpotPolling({
+    enabled: pollingSettings.enabled,
+    intervalSeconds: pollingSettings.intervalSeconds,
+    poll: async () => {
+      await fetchAndMergeSpots();
+      setError(null);
+    },
+  });
+
   const onRefresh = useCallback(() => {
     setRefreshing(true);
     loadSpots(true);
-  }, [huntedParks]);
+  }, []);
 
   const handleSpotPress = async (spot: SpotWithUserData) => {
     if (!hrdSettings.enabled) {
@@ -145,8 +419,22 @@ export const SpotsListScreen: React.FC<SpotsListScreenProps> = ({ onOpenSettings
   };
 
   const handleReSpot = (spot: SpotWithUserData) => {
-    // Implement re-spot functionality
-    console.log('Re-spot:', spot.activator, spot.reference);
+    setSpotToReSpot(spot);
+  };
+
+  const handleReSpotSubmit = async (data: ReSpotData) => {
+    if (!spotToReSpot) {
+      return { success: false, message: 'No spot selected' };
+    }
+
+    return sendReSpot({
+      activator: spotToReSpot.activator,
+      spotter: hrdSettings.myCallsign.trim().toUpperCase(),
+      frequency: data.frequency,
+      reference: spotToReSpot.reference,
+      mode: data.mode,
+      comments: data.comments,
+    });
   };
 
   const handleLog = (spot: SpotWithUserData) => {
@@ -157,31 +445,44 @@ export const SpotsListScreen: React.FC<SpotsListScreenProps> = ({ onOpenSettings
   const handleLogSubmit = async (qsoData: QSOData) => {
     let loggedToHRD = false;
     let hrdErrorMessage = '';
+    let hrdDeliveredRecords: string[] | undefined;
+    const gridSquare = normalizeGrid(spotToLog?.grid6 || spotToLog?.grid4 || '');
+    const myGridSquare = getStationGrid(stationSettings);
+    const timestamp = new Date().toISOString();
+
+    const hrdQSO: QSOLogData = {
+      callsign: qsoData.callsign,
+      frequency: qsoData.frequency,
+      mode: qsoData.mode,
+      rstSent: qsoData.rstSent,
+      rstReceived: qsoData.rstReceived,
+      comment: qsoData.comment,
+      parkReference: qsoData.parkReference,
+      myParkReference: qsoData.myParkReference || undefined,
+      gridSquare: gridSquare || undefined,
+      myGridSquare: myGridSquare || undefined,
+      myCallsign: hrdSettings.myCallsign,
+      timestamp,
+    };
 
     // Try to log to HRD if enabled
     if (hrdSettings.enabled) {
-      const result = await logQSOToHRD(hrdSettings, {
-        callsign: qsoData.callsign,
-        frequency: qsoData.frequency,
-        mode: qsoData.mode,
-        rstSent: qsoData.rstSent,
-        rstReceived: qsoData.rstReceived,
-        comment: qsoData.comment,
-        parkReference: qsoData.parkReference,
-        myCallsign: hrdSettings.myCallsign,
-      });
+      const result = await logQSOToHRD(hrdSettings, hrdQSO);
 
       if (result.success) {
         loggedToHRD = true;
       } else {
         hrdErrorMessage = result.message;
+        hrdDeliveredRecords = result.deliveredRecords;
       }
     }
 
     // Save to internal log as backup or if HRD failed
     const internalLogResult = await saveToInternalLog({
+      timestamp,
       callsign: qsoData.callsign,
       parkReference: qsoData.parkReference,
+      myParkReference: qsoData.myParkReference || undefined,
       frequency: qsoData.frequency,
       mode: qsoData.mode,
       rstSent: qsoData.rstSent,
@@ -190,26 +491,44 @@ export const SpotsListScreen: React.FC<SpotsListScreenProps> = ({ onOpenSettings
       myCallsign: hrdSettings.myCallsign,
       parkName: spotToLog?.name,
       locationDesc: spotToLog?.locationDesc,
+      gridSquare: gridSquare || undefined,
+      myGridSquare: myGridSquare || undefined,
       savedReason: !hrdSettings.enabled 
         ? 'relay-unavailable' 
         : loggedToHRD 
           ? 'manual' 
           : 'hrd-error',
+      deliveryStatus: !hrdSettings.enabled
+        ? 'local-only'
+        : loggedToHRD
+          ? 'delivered'
+          : 'pending',
     });
 
+    // Queue for retry so the QSO still reaches HRD once the relay is back
+    if (hrdSettings.enabled && !loggedToHRD && internalLogResult.entry) {
+      await enqueueHRDDelivery(
+        internalLogResult.entry.id,
+        hrdQSO,
+        hrdErrorMessage,
+        hrdDeliveredRecords
+      );
+    }
+
     // Handle re-spot if comment was provided
     let reSpotMessage = '';
     if (qsoData.comment.trim()) {
-      const reSpotResult = await reSpotActivator(
-        qsoData.callsign,
-        qsoData.parkReference,
-        qsoData.frequency,
-        qsoData.mode,
-        hrdSettings.myCallsign,
-        qsoData.comment
-      );
+      const reSpotResult = await sendReSpot({
+        activator: qsoData.callsign,
+        spotter: hrdSettings.myCallsign,
+        frequency: qsoData.frequency,
+        // The logged parks may be an n-fer list; POTA spots take one reference
+        reference: spotToLog?.reference ?? parseParkReferences(qsoData.parkReference)[0] ?? '',
+        mode: qsoData.mode,
+        comments: qsoData.comment,
+      });
 
-      if (reSpotResult.success) {
+      if (reSpotResult.success || reSpotResult.cooldownRemainingMs) {
         reSpotMessage = reSpotResult.message;
       }
     }
@@ -226,7 +545,7 @@ export const SpotsListScreen: React.FC<SpotsListScreenProps> = ({ onOpenSettings
     } else if (!loggedToHRD && internalLogResult.success) {
       const messages = [
         hrdSettings.enabled 
-          ? `HRD unavailable: ${hrdErrorMessage}\n\nQSO saved to internal log for later export.` 
+          ? `HRD unavailable: ${hrdErrorMessage}\n\nQSO saved to internal log and will be sent to HRD automatically when the relay is reachable.` 
           : 'QSO saved to internal log.\n\nEnable HRD in settings to log directly to your radio.'
       ];
       if (reSpotMessage) {
@@ -281,6 +600,9 @@ export const SpotsListScreen: React.FC<SpotsListScreenProps> = ({ onOpenSettings
       opacity: 0.9,
       marginTop: 4,
     },
+    headerButtons: {
+      flexDirection: 'row',
+    },
     settingsButton: {
       padding: 8,
     },
@@ -288,6 +610,15 @@ export const SpotsListScreen: React.FC<SpotsListScreenProps> = ({ onOpenSettings
       color: theme.textOnPrimary,
       fontSize: 24,
     },
+    mapContainer: {
+      flex: 1,
+    },
+    mapSelection: {
+      position: 'absolute',
+      left: 0,
+      right: 0,
+      bottom: 0,
+    },
     listContent: {
       paddingVertical: 8,
     },
@@ -329,6 +660,16 @@ export const SpotsListScreen: React.FC<SpotsListScreenProps> = ({ onOpenSettings
       color: theme.textOnPrimary,
       opacity: 0.8,
     },
+    pollErrorBanner: {
+      backgroundColor: theme.error,
+      paddingHorizontal: 16,
+      paddingVertical: 6,
+    },
+    pollErrorText: {
+      fontSize: 12,
+      color: theme.textOnPrimary,
+      textAlign: 'center',
+    },
   });
 
   const renderHeader = () => (
@@ -351,16 +692,69 @@ export const SpotsListScreen: React.FC<SpotsListScreenProps> = ({ onOpenSettings
           </Text>
         </View>
       </View>
-      <TouchableOpacity style={styles.settingsButton} onPress={onOpenSettings}>
-        <Text style={styles.settingsText}>⚙️</Text>
-      </TouchableOpacity>
+      <View style={styles.headerButtons}>
+        <TouchableOpacity
+          style={styles.settingsButton}
+          onPress={() => setViewMode(viewMode === 'list' ? 'map' : 'list')}
+        >
+          <Text style={styles.settingsText}>{viewMode === 'list' ? '🗺️' : '📋'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.settingsButton} onPress={onOpenActivation}>
+          <Text style={styles.settingsText}>📡</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.settingsButton} onPress={onOpenSettings}>
+          <Text style={styles.settingsText}>⚙️</Text>
+        </TouchableOpacity>
+      </View>
     </View>
   );
 
+  const renderPollError = () => {
+    if (polling.consecutiveErrors === 0) {
+      return null;
+    }
+
+    const retryAt = polling.nextPollAt
+      ? new Date(polling.nextPollAt).toLocaleTimeString()
+      : null;
+
+    return (
+      <View style={styles.pollErrorBanner}>
+        <Text style={styles.pollErrorText}>
+          Spot update failed{polling.consecutiveErrors > 1 ? ` (${polling.consecutiveErrors}x)` : ''}
+          {retryAt ? ` - retrying at ${retryAt}` : ''}
+        </Text>
+      </View>
+    );
+  };
+
+  // Props shared by the spot list and the activation group list
+  const listProps = {
+    contentContainerStyle: styles.listContent,
+    maintainVisibleContentPosition: { minIndexForVisible: 0 },
+    refreshControl: (
+      <RefreshControl
+        refreshing={refreshing}
+        onRefresh={onRefresh}
+        colors={[theme.primary]}
+        tintColor={theme.primary}
+      />
+    ),
+    ListEmptyComponent: (
+      <View style={styles.centerContainer}>
+        <Text style={styles.emptyText}>
+          {searchQuery.trim() || bandFilter.length > 0 || modeFilter.length > 0 || neededOnly || (myLocation && distanceFilter !== 'all')
+            ? 'No spots match the selected filters'
+            : 'No active spots at the moment'}
+        </Text>
+      </View>
+    ),
+  };
+
   if (loading) {
     return (
       <SafeAreaView style={styles.container}>
-        <StatusBar backgroundColor={theme.primary} barStyle="light-content" />
+        <StatusBar backgroundColor={theme.primary} barStyle={theme.statusBarStyle} />
         {renderHeader()}
         <View style={styles.centerContainer}>
           <ActivityIndicator size="large" color={theme.primary} />
@@ -373,7 +767,7 @@ export const SpotsListScreen: React.FC<SpotsListScreenProps> = ({ onOpenSettings
   if (error) {
     return (
       <SafeAreaView style={styles.container}>
-        <StatusBar backgroundColor={theme.primary} barStyle="light-content" />
+        <StatusBar backgroundColor={theme.primary} barStyle={theme.statusBarStyle} />
         {renderHeader()}
         <View style={styles.centerContainer}>
           <Text style={styles.errorText}>{error}</Text>
@@ -384,54 +778,126 @@ export const SpotsListScreen: React.FC<SpotsListScreenProps> = ({ onOpenSettings
 
   return (
     <SafeAreaView style={styles.container}>
-      <StatusBar backgroundColor={theme.primary} barStyle="light-content" />
+      <StatusBar backgroundColor={theme.primary} barStyle={theme.statusBarStyle} />
       {renderHeader()}
+      <AlertBanner alerts={activeAlerts} onDismiss={() => setActiveAlerts([])} />
+      {renderPollError()}
       <FilterBar
+        searchQuery={searchQuery}
+        onSearchChange={setSearchQuery}
         bandFilter={bandFilter}
         modeFilter={modeFilter}
-        onBandChange={setBandFilter}
-        onModeChange={setModeFilter}
+        onBandChange={handleBandChange}
+        onModeChange={handleModeChange}
+        presets={spotListSettings.presets}
+        activePresetId={spotListSettings.activePresetId}
+        onApplyPreset={handleApplyPreset}
+        onSavePreset={handleSavePreset}
+        onDeletePreset={handleDeletePreset}
+        showDistance={myLocation !== null}
+        distanceFilter={distanceFilter}
+        onDistanceChange={setDistanceFilter}
+        sortMode={sortMode}
+        onSortModeChange={sortMode => updateSpotListSettings({ sortMode })}
         hideHunted={hideHunted}
         onHideHuntedChange={setHideHunted}
+        neededOnly={neededOnly}
+        onNeededOnlyChange={setNeededOnly}
+        groupByActivation={groupByActivation}
+        onGroupByActivationChange={setGroupByActivation}
         resultCount={filteredSpots.length}
       />
-      <FlatList
-        data={filteredSpots}
-        keyExtractor={(item) => item.spotId.toString()}
-        renderItem={({ item }) => (
-          <SpotCard
-            spot={item}
-            isHunted={huntedSpotIds.has(item.spotId)}
-            onPress={handleSpotPress}
-            onReSpot={handleReSpot}
-            onLog={handleLog}
-          />
-        )}
-        contentContainerStyle={styles.listContent}
-        refreshControl={
-          <RefreshControl
-            refreshing={refreshing}
-            onRefresh={onRefresh}
-            colors={[theme.primary]}
-            tintColor={theme.primary}
+      {viewMode === 'map' ? (
+        <View style={styles.mapContainer}>
+          <SpotMap
+            spots={filteredSpots}
+            huntedSpotIds={huntedSpotIds}
+            myLocation={myLocation}
+            selectedSpotId={selectedMapSpot?.spotId ?? null}
+            onSelectSpot={spot => setSelectedMapSpotId(spot?.spotId ?? null)}
           />
-        }
-        ListEmptyComponent={
-          <View style={styles.centerContainer}>
-            <Text style={styles.emptyText}>
-              {bandFilter !== 'all' || modeFilter !== 'all'
-                ? 'No spots match the selected filters'
-                : 'No active spots at the moment'}
-            </Text>
-          </View>
-        }
-      />
+          {selectedMapSpot && (
+            <View style={styles.mapSelection}>
+              <SpotCard
+                spot={selectedMapSpot}
+                isHunted={huntedSpotIds.has(selectedMapSpot.spotId)}
+                path={spotPaths.get(selectedMapSpot.spotId)}
+                onPress={handleSpotPress}
+                onReSpot={handleReSpot}
+                onLog={handleLog}
+                onPressReference={spot => onOpenPark(spot.reference)}
+                isWatched={isActivatorWatched(watchlist, selectedMapSpot.activator)}
+                isFavoritePark={isParkFavorite(watchlist, selectedMapSpot.reference)}
+                onToggleWatch={handleToggleWatch}
+                onToggleFavoritePark={handleToggleFavoritePark}
+              />
+            </View>
+          )}
+        </View>
+      ) : groupByActivation ? (
+        <FlatList
+          data={activationGroups}
+          keyExtractor={(item) => item.key}
+          renderItem={({ item }) => (
+            <ActivationGroupCard
+              group={item}
+              isHunted={item.spots.some(spot => huntedSpotIds.has(spot.spotId))}
+              path={spotPaths.get(item.latest.spotId)}
+              onPress={handleSpotPress}
+              onReSpot={handleReSpot}
+              onLog={handleLog}
+              onPressReference={spot => onOpenPark(spot.reference)}
+              isWatched={isActivatorWatched(watchlist, item.activator)}
+              isFavoritePark={isParkFavorite(watchlist, item.reference)}
+              onToggleWatch={handleToggleWatch}
+              onToggleFavoritePark={handleToggleFavoritePark}
+            />
+          )}
+          {...listProps}
+        />
+      ) : (
+        <FlatList
+          data={filteredSpots}
+          keyExtractor={(item) => item.spotId.toString()}
+          renderItem={({ item }) => (
+            <SpotCard
+              spot={item}
+              isHunted={huntedSpotIds.has(item.spotId)}
+              path={spotPaths.get(item.spotId)}
+              onPress={handleSpotPress}
+              onReSpot={handleReSpot}
+              onLog={handleLog}
+              onPressReference={spot => onOpenPark(spot.reference)}
+              isWatched={isActivatorWatched(watchlist, item.activator)}
+              isFavoritePark={isParkFavorite(watchlist, item.reference)}
+              onToggleWatch={handleToggleWatch}
+              onToggleFavoritePark={handleToggleFavoritePark}
+            />
+          )}
+          {...listProps}
+        />
+      )}
       <LogModal
         visible={logModalVisible}
         spot={spotToLog}
         stationCallsign={hrdSettings.myCallsign}
+        defaultMyParkReference={activationParks}
         onClose={() => setLogModalVisible(false)}
         onSubmit={handleLogSubmit}
+        onCheckDuplicate={findDuplicateQSO}
+      />
+      <ReSpotSheet
+        visible={spotToReSpot !== null}
+        spot={spotToReSpot}
+        spotterCallsign={hrdSettings.myCallsign}
+        grid={stationSettings.grid}
+        templates={reSpotSettings.templates}
+        onClose={() => setSpotToReSpot(null)}
+        onSubmit={handleReSpotSubmit}
+        onOpenSettings={() => {
+          setSpotToReSpot(null);
+          onOpenSettings();
+        }}
       />
     </SafeAreaView>
   );
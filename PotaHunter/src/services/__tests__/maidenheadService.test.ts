@@ -0,0 +1,195 @@
+import {
+  getGridBounds,
+  getGridCenter,
+  isValidGrid,
+  latLonToGrid,
+  normalizeGrid,
+} from '../maidenheadService';
+
+// ARRL HQ (W1AW), Newington CT
+const W1AW = { latitude: 41.714775, longitude: -72.72726 };
+
+describe('latLonToGrid', () => {
+  it('converts to 4, 6 and 8 character locators', () => {
+    expect(latLonToGrid(W1AW.latitude, W1AW.longitude, 4)).toBe('FN31');
+    expect(latLonToGrid(W1AW.latitude, W1AW.longitude, 6)).toBe('FN31pr');
+    expect(latLonToGrid(W1AW.latitude, W1AW.longitude, 8)).toBe('FN31pr21');
+  });
+
+  it('defaults to 6 characters', () => {
+    expect(latLonToGrid(42.3601, -71.0589)).toBe('FN42li');
+  });
+
+  it('handles the southern and eastern hemispheres', () => {
+    expect(latLonToGrid(-33.8688, 151.2093)).toBe('QF56od');
+    expect(latLonToGrid(-34.6037, -58.3816)).toBe('GF05tj');
+  });
+
+  it('puts the origin at the corner of JJ00', () => {
+    expect(latLonToGrid(0, 0, 8)).toBe('JJ00aa00');
+  });
+
+  it('maps the poles to the first and last rows', () => {
+    expect(latLonToGrid(-90, 0, 8)).toBe('JA00aa00');
+    expect(latLonToGrid(90, 0, 8)).toBe('JR09ax09');
+  });
+
+  it('clamps latitudes beyond the poles', () => {
+    expect(latLonToGrid(95, 0)).toBe(latLonToGrid(90, 0));
+    expect(latLonToGrid(-95, 0)).toBe(latLonToGrid(-90, 0));
+  });
+
+  it('keeps 180°E in the easternmost field', () => {
+    expect(latLonToGrid(0, 180, 8)).toBe('RJ90xa90');
+    expect(latLonToGrid(90, 180, 8)).toBe('RR99xx99');
+  });
+
+  it('puts 180°W in the westernmost field', () => {
+    expect(latLonToGrid(0, -180, 8)).toBe('AJ00aa00');
+  });
+
+  it('wraps longitudes beyond the antimeridian', () => {
+    expect(latLonToGrid(0, 190)).toBe(latLonToGrid(0, -170));
+    expect(latLonToGrid(0, -190)).toBe(latLonToGrid(0, 170));
+    expect(latLonToGrid(0, 540)).toBe(latLonToGrid(0, -180));
+  });
+
+  it('returns an empty string for non-finite coordinates', () => {
+    expect(latLonToGrid(NaN, 0)).toBe('');
+    expect(latLonToGrid(0, NaN)).toBe('');
+    expect(latLonToGrid(Infinity, 0)).toBe('');
+    expect(latLonToGrid(0, -Infinity)).toBe('');
+  });
+});
+
+describe('getGridBounds', () => {
+  it('returns the edges of a field square', () => {
+    expect(getGridBounds('FN31')).toEqual({ south: 41, west: -74, north: 42, east: -72 });
+  });
+
+  it('returns the edges of a subsquare', () => {
+    const bounds = getGridBounds('JJ00aa');
+    expect(bounds).not.toBeNull();
+    expect(bounds!.south).toBeCloseTo(0);
+    expect(bounds!.west).toBeCloseTo(0);
+    expect(bounds!.north).toBeCloseTo(1 / 24);
+    expect(bounds!.east).toBeCloseTo(2 / 24);
+  });
+
+  it('returns the edges of an extended square', () => {
+    const bounds = getGridBounds('RR99xx99');
+    expect(bounds).not.toBeNull();
+    expect(bounds!.north).toBeCloseTo(90);
+    expect(bounds!.east).toBeCloseTo(180);
+    expect(bounds!.north - bounds!.south).toBeCloseTo(1 / 240);
+    expect(bounds!.east - bounds!.west).toBeCloseTo(2 / 240);
+  });
+
+  it('covers the whole globe from AA00 to RR99', () => {
+    expect(getGridBounds('AA00')).toEqual({ south: -90, west: -180, north: -89, east: -178 });
+    expect(getGridBounds('RR99')).toEqual({ south: 89, west: 178, north: 90, east: 180 });
+  });
+
+  it('ignores case and surrounding whitespace', () => {
+    expect(getGridBounds(' fn31PR ')).toEqual(getGridBounds('FN31pr'));
+  });
+
+  it('returns null for invalid locators', () => {
+    expect(getGridBounds('')).toBeNull();
+    expect(getGridBounds('FN3')).toBeNull();
+    expect(getGridBounds('SN31')).toBeNull();
+    expect(getGridBounds('FN31py')).toBeNull();
+  });
+});
+
+describe('getGridCenter', () => {
+  it('returns the center of a square', () => {
+    expect(getGridCenter('FN31')).toEqual({ latitude: 41.5, longitude: -73 });
+  });
+
+  it('returns a center inside the square for every precision', () => {
+    ['FN31', 'FN31pr', 'FN31pr21'].forEach(grid => {
+      const center = getGridCenter(grid)!;
+      const bounds = getGridBounds(grid)!;
+      expect(center.latitude).toBeGreaterThan(bounds.south);
+      expect(center.latitude).toBeLessThan(bounds.north);
+      expect(center.longitude).toBeGreaterThan(bounds.west);
+      expect(center.longitude).toBeLessThan(bounds.east);
+    });
+  });
+
+  it('returns null for invalid locators', () => {
+    expect(getGridCenter('not a grid')).toBeNull();
+  });
+});
+
+describe('isValidGrid', () => {
+  it('accepts 4, 6 and 8 character locators in any case', () => {
+    expect(isValidGrid('FN31')).toBe(true);
+    expect(isValidGrid('FN31pr')).toBe(true);
+    expect(isValidGrid('fn31PR21')).toBe(true);
+    expect(isValidGrid(' FN31 ')).toBe(true);
+  });
+
+  it('rejects other lengths', () => {
+    expect(isValidGrid('')).toBe(false);
+    expect(isValidGrid('FN')).toBe(false);
+    expect(isValidGrid('FN3')).toBe(false);
+    expect(isValidGrid('FN31p')).toBe(false);
+    expect(isValidGrid('FN31pr2')).toBe(false);
+    expect(isValidGrid('FN31pr21ab')).toBe(false);
+  });
+
+  it('rejects characters out of range for their pair', () => {
+    expect(isValidGrid('SA00')).toBe(false);  // Fields stop at R
+    expect(isValidGrid('FNAB')).toBe(false);  // Squares are digits
+    expect(isValidGrid('FN31yy')).toBe(false);  // Subsquares stop at X
+    expect(isValidGrid('FN31prab')).toBe(false);  // Extended squares are digits
+    expect(isValidGrid('FN-1')).toBe(false);
+  });
+});
+
+describe('normalizeGrid', () => {
+  it('upper-cases the field and square and lower-cases the rest', () => {
+    expect(normalizeGrid('fn31PR')).toBe('FN31pr');
+    expect(normalizeGrid(' fn31pr21 ')).toBe('FN31pr21');
+    expect(normalizeGrid('fn31')).toBe('FN31');
+  });
+
+  it('trims and upper-cases invalid input', () => {
+    expect(normalizeGrid(' fn3 ')).toBe('FN3');
+    expect(normalizeGrid('')).toBe('');
+  });
+});
+
+describe('round trips', () => {
+  const positions = [
+    W1AW,
+    { latitude: -33.8688, longitude: 151.2093 },
+    { latitude: 64.1466, longitude: -21.9426 },
+    { latitude: -54.8019, longitude: -68.303 },
+    { latitude: 0.0001, longitude: -0.0001 },
+    { latitude: 89.99, longitude: 179.99 },
+    { latitude: -89.99, longitude: -179.99 },
+  ];
+  const precisions = [4, 6, 8] as const;
+
+  it('puts each position inside the square it converts to', () => {
+    positions.forEach(({ latitude, longitude }) => {
+      precisions.forEach(precision => {
+        const bounds = getGridBounds(latLonToGrid(latitude, longitude, precision))!;
+        expect(latitude).toBeGreaterThanOrEqual(bounds.south);
+        expect(latitude).toBeLessThan(bounds.north);
+        expect(longitude).toBeGreaterThanOrEqual(bounds.west);
+        expect(longitude).toBeLessThan(bounds.east);
+      });
+    });
+  });
+
+  it('converts a square center back to the same locator', () => {
+    ['AA00', 'JJ00aa', 'FN31pr21', 'RR99xx99', 'QF56od', 'GF05tk47'].forEach(grid => {
+      const center = getGridCenter(grid)!;
+      expect(latLonToGrid(center.latitude, center.longitude, grid.length as 4 | 6 | 8)).toBe(grid);
+    });
+  });
+});
@@ -0,0 +1,513 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { getBand, getBaseCallsign, parseParkReferences } from '../types/spot';
+import { SpotResponse, submitSpot } from './potaService';
+import { ADIFRecord, buildADIF, formatADIFDateTime, toADIFMode } from './adifService';
+import { getParkDetails } from './parkService';
+import { normalizeGrid } from './maidenheadService';
+
+/**
+ * Activator mode
+ *
+ * Activations and their QSOs are stored separately from the hunter
+ * internal log. Each activation covers one or more parks (n-fer);
+ * every QSO counts toward each park in the activation.
+ */
+
+const ACTIVATIONS_KEY = '@pota_hunter:activations';
+const QSO_PREFIX = '@pota_hunter:activation_qsos:';
+
+// QSOs needed per park per UTC day for a valid activation
+export const ACTIVATION_QSO_THRESHOLD = 10;
+
+export interface Activation {
+  id: string;
+  parkReferences: string[];  // Normalized, first is the primary park for spotting
+  myCallsign: string;
+  frequency: string;         // Current frequency in kHz
+  mode: string;              // Current mode
+  startedAt: string;         // ISO 8601
+  endedAt?: string;          // ISO 8601, unset while active
+}
+
+export interface ActivationQSO {
+  id: string;
+  activationId: string;
+  timestamp: string;           // ISO 8601
+  callsign: string;
+  frequency: string;           // in kHz
+  mode: string;
+  rstSent: string;
+  rstReceived: string;
+  theirParkReference?: string; // Park-to-park contact, comma-separated for n-fers
+  comment?: string;
+}
+
+export interface ActivationProgress {
+  date: string;       // UTC date, YYYY-MM-DD
+  count: number;      // QSOs on that date
+  needed: number;     // QSOs still needed to reach the threshold
+  complete: boolean;
+}
+
+type ActivationListener = () => void;
+
+const listeners = new Set<ActivationListener>();
+
+const qsoKey = (activationId: string) => `${QSO_PREFIX}${activationId}`;
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const notifyActivationChanges = () => {
+  listeners.forEach(listener => listener());
+};
+
+const readActivations = async (): Promise<Activation[]> => {
+  const data = await AsyncStorage.getItem(ACTIVATIONS_KEY);
+  return data ? JSON.parse(data) : [];
+};
+
+const writeActivations = async (activations: Activation[]): Promise<void> => {
+  await AsyncStorage.setItem(ACTIVATIONS_KEY, JSON.stringify(activations));
+};
+
+const readQSOs = async (activationId: string): Promise<ActivationQSO[]> => {
+  const data = await AsyncStorage.getItem(qsoKey(activationId));
+  return data ? JSON.parse(data) : [];
+};
+
+/**
+ * Get the UTC date (YYYY-MM-DD) of an ISO timestamp
+ */
+export const getUTCDate = (timestamp: string): string => timestamp.slice(0, 10);
+
+/**
+ * Count QSOs toward the activation threshold for one UTC day
+ * Repeat contacts with the same station on the same band and mode only count once
+ */
+export const getActivationProgress = (
+  qsos: ActivationQSO[],
+  date: string = getUTCDate(new Date().toISOString())
+): ActivationProgress => {
+  const unique = new Set(
+    qsos
+      .filter(qso => getUTCDate(qso.timestamp) === date)
+      .map(qso => `${getBaseCallsign(qso.callsign)}|${getBand(qso.frequency)}|${qso.mode}`)
+  );
+  const count = unique.size;
+  return {
+    date,
+    count,
+    needed: Math.max(0, ACTIVATION_QSO_THRESHOLD - count),
+    complete: count >= ACTIVATION_QSO_THRESHOLD,
+  };
+};
+
+/**
+ * Get all activations, newest first
+ */
+export const getActivations = async (): Promise<Activation[]> => {
+  try {
+    const activations = await readActivations();
+    return activations.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  } catch (error) {
+    console.error('Error reading activations:', error);
+    return [];
+  }
+};
+
+/**
+ * Get the activation in progress, if any
+ */
+export const getActiveActivation = async (): Promise<Activation | null> => {
+  const activations = await getActivations();
+  return activations.find(activation => !activation.endedAt) ?? null;
+};
+
+/**
+ * Start a new activation
+ * Any activation still in progress is ended first
+ */
+export const startActivation = async (
+  parkReferences: string,
+  myCallsign: string,
+  frequency: string,
+  mode: string
+): Promise<{ success: boolean; message: string; activation?: Activation }> => {
+  const parks = parseParkReferences(parkReferences);
+  if (parks.length === 0) {
+    return { success: false, message: 'Enter at least one park reference' };
+  }
+  if (!myCallsign.trim()) {
+    return { success: false, message: 'Set your callsign before starting an activation' };
+  }
+
+  try {
+    const now = new Date().toISOString();
+    const activations = (await readActivations()).map(activation =>
+      activation.endedAt ? activation : { ...activation, endedAt: now }
+    );
+
+    const activation: Activation = {
+      id: createId(),
+      parkReferences: Array.from(new Set(parks)),
+      myCallsign: myCallsign.trim().toUpperCase(),
+      frequency: frequency.trim(),
+      mode: mode.trim().toUpperCase(),
+      startedAt: now,
+    };
+
+    await writeActivations([...activations, activation]);
+    notifyActivationChanges();
+
+    return {
+      success: true,
+      message: `Activation started at ${activation.parkReferences.join(', ')}`,
+      activation,
+    };
+  } catch (error) {
+    console.error('Error starting activation:', error);
+    return {
+      success: false,
+      message: `Failed to start activation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+};
+
+/**
+ * Change the frequency or mode of an activation
+ */
+export const updateActivation = async (
+  id: string,
+  updates: Partial<Pick<Activation, 'frequency' | 'mode'>>
+): Promise<Activation | null> => {
+  try {
+    const activations = await readActivations();
+    let updated: Activation | null = null;
+    const next = activations.map(activation => {
+      if (activation.id !== id) {
+        return activation;
+      }
+      updated = {
+        ...activation,
+        ...(updates.frequency !== undefined && { frequency: updates.frequency.trim() }),
+        ...(updates.mode !== undefined && { mode: updates.mode.trim().toUpperCase() }),
+      };
+      return updated;
+    });
+
+    if (!updated) {
+      return null;
+    }
+
+    await writeActivations(next);
+    notifyActivationChanges();
+    return updated;
+  } catch (error) {
+    console.error('Error updating activation:', error);
+    return null;
+  }
+};
+
+/**
+ * End an activation
+ */
+export const endActivation = async (id: string): Promise<boolean> => {
+  try {
+    const activations = await readActivations();
+    const now = new Date().toISOString();
+    await writeActivations(
+      activations.map(activation =>
+        activation.id === id && !activation.endedAt ? { ...activation, endedAt: now } : activation
+      )
+    );
+    notifyActivationChanges();
+    return true;
+  } catch (error) {
+    console.error('Error ending activation:', error);
+    return false;
+  }
+};
+
+/**
+ * Delete an activation and all its QSOs
+ */
+export const deleteActivation = async (id: string): Promise<boolean> => {
+  try {
+    const activations = await readActivations();
+    await writeActivations(activations.filter(activation => activation.id !== id));
+    await AsyncStorage.removeItem(qsoKey(id));
+    notifyActivationChanges();
+    return true;
+  } catch (error) {
+    console.error('Error deleting activation:', error);
+    return false;
+  }
+};
+
+/**
+ * Get the QSOs of an activation, newest first
+ */
+export const getActivationQSOs = async (activationId: string): Promise<ActivationQSO[]> => {
+  try {
+    const qsos = await readQSOs(activationId);
+    return qsos.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  } catch (error) {
+    console.error('Error reading activation QSOs:', error);
+    return [];
+  }
+};
+
+/**
+ * Log a QSO in an activation
+ */
+export const addActivationQSO = async (
+  activation: Activation,
+  qso: Pick<ActivationQSO, 'callsign' | 'rstSent' | 'rstReceived'> &
+    Partial<Pick<ActivationQSO, 'frequency' | 'mode' | 'theirParkReference' | 'comment'>>
+): Promise<{ success: boolean; message: string; qso?: ActivationQSO }> => {
+  const callsign = qso.callsign.trim().toUpperCase();
+  if (!callsign) {
+    return { success: false, message: 'Enter a callsign' };
+  }
+
+  try {
+    const theirParks = parseParkReferences(qso.theirParkReference || '');
+    const newQSO: ActivationQSO = {
+      id: createId(),
+      activationId: activation.id,
+      timestamp: new Date().toISOString(),
+      callsign,
+      frequency: (qso.frequency || activation.frequency).trim(),
+      mode: (qso.mode || activation.mode).trim().toUpperCase(),
+      rstSent: qso.rstSent.trim(),
+      rstReceived: qso.rstReceived.trim(),
+      theirParkReference: theirParks.length > 0 ? theirParks.join(',') : undefined,
+      comment: qso.comment?.trim() || undefined,
+    };
+
+    const qsos = await readQSOs(activation.id);
+    qsos.push(newQSO);
+    await AsyncStorage.setItem(qsoKey(activation.id), JSON.stringify(qsos));
+    notifyActivationChanges();
+
+    return { success: true, message: `Logged ${callsign}`, qso: newQSO };
+  } catch (error) {
+    console.error('Error logging activation QSO:', error);
+    return {
+      success: false,
+      message: `Failed to log QSO: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+};
+
+/**
+ * Delete a QSO from an activation
+ */
+export const deleteActivationQSO = async (activationId: string, qsoId: string): Promise<boolean> => {
+  try {
+    const qsos = await readQSOs(activationId);
+    await AsyncStorage.setItem(
+      qsoKey(activationId),
+      JSON.stringify(qsos.filter(qso => qso.id !== qsoId))
+    );
+    notifyActivationChanges();
+    return true;
+  } catch (error) {
+    console.error('Error deleting activation QSO:', error);
+    return false;
+  }
+};
+
+/**
+ * Get every activation QSO made at a park, newest first
+ */
+export const getParkActivationLog = async (parkReference: string): Promise<ActivationQSO[]> => {
+  const [park] = parseParkReferences(parkReference);
+  if (!park) {
+    return [];
+  }
+
+  const activations = (await getActivations()).filter(activation =>
+    activation.parkReferences.includes(park)
+  );
+  const qsos = await Promise.all(activations.map(activation => getActivationQSOs(activation.id)));
+  return qsos.flat().sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+/**
+ * Spot myself at the activation's current frequency and mode
+ * The primary park is spotted; other parks of an n-fer are listed in the comment
+ */
+export const selfSpot = async (activation: Activation, comment: string): Promise<SpotResponse> => {
+  const [primary, ...others] = activation.parkReferences;
+  const comments = [
+    others.length > 0 ? `${activation.parkReferences.length}-fer w/ ${others.join(' ')}` : '',
+    comment.trim(),
+  ].filter(Boolean).join(' ');
+
+  return submitSpot({
+    activator: activation.myCallsign,
+    spotter: activation.myCallsign,
+    frequency: activation.frequency,
+    reference: primary,
+    mode: activation.mode,
+    comments,
+  });
+};
+
+export interface ActivationADIFFile {
+  fileName: string;   // CALL@PARK-YYYYMMDD.adi
+  park: string;
+  date: string;       // UTC date, YYYY-MM-DD
+  qsoCount: number;
+  content: string;
+}
+
+/**
+ * Build the ADIF records for one QSO at one of my parks
+ * A park-to-park contact with an n-fer station gets one record per park they were at
+ */
+const buildActivationRecords = (
+  activation: Activation,
+  park: string,
+  qso: ActivationQSO,
+  myGrid: string
+): ADIFRecord[] => {
+  const { qsoDate, timeOn } = formatADIFDateTime(qso.timestamp);
+  const { mode, submode } = toADIFMode(qso.mode);
+  const band = getBand(qso.frequency);
+
+  const base: ADIFRecord = {
+    STATION_CALLSIGN: activation.myCallsign,
+    OPERATOR: getBaseCallsign(activation.myCallsign),
+    CALL: qso.callsign,
+    QSO_DATE: qsoDate,
+    TIME_ON: timeOn,
+    FREQ: (parseFloat(qso.frequency) / 1000).toFixed(6),
+    ...(band && { BAND: band }),
+    MODE: mode,
+    ...(submode && { SUBMODE: submode }),
+    RST_SENT: qso.rstSent,
+    RST_RCVD: qso.rstReceived,
+    MY_SIG: 'POTA',
+    MY_SIG_INFO: park,
+    ...(myGrid && { MY_GRIDSQUARE: myGrid }),
+    ...(qso.comment && { COMMENT: qso.comment }),
+  };
+
+  const theirParks = parseParkReferences(qso.theirParkReference || '');
+  if (theirParks.length === 0) {
+    return [base];
+  }
+  return theirParks.map(theirPark => ({ ...base, SIG: 'POTA', SIG_INFO: theirPark }));
+};
+
+/**
+ * Build one ADIF file per park per UTC day, following POTA upload conventions
+ * n-fer activations produce a file for each park with the same QSOs
+ * parkGrids supplies MY_GRIDSQUARE for each park, where known
+ */
+export const buildActivationADIFFiles = (
+  activation: Activation,
+  qsos: ActivationQSO[],
+  parkGrids: Record<string, string> = {}
+): ActivationADIFFile[] => {
+  const byDate = new Map<string, ActivationQSO[]>();
+  [...qsos]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .forEach(qso => {
+      const date = getUTCDate(qso.timestamp);
+      byDate.set(date, [...(byDate.get(date) ?? []), qso]);
+    });
+
+  // Portable indicators can't go in file names
+  const fileCall = activation.myCallsign.replace(/\//g, '_');
+
+  const files: ActivationADIFFile[] = [];
+  activation.parkReferences.forEach(park => {
+    byDate.forEach((dayQSOs, date) => {
+      const records = dayQSOs.flatMap(qso => buildActivationRecords(activation, park, qso, parkGrids[park] ?? ''));
+      files.push({
+        fileName: `${fileCall}@${park}-${date.replace(/-/g, '')}.adi`,
+        park,
+        date,
+        qsoCount: dayQSOs.length,
+        content: buildADIF(records, `POTA activation of ${park} by ${activation.myCallsign} on ${date}`),
+      });
+    });
+  });
+
+  return files;
+};
+
+/**
+ * Export an activation as per-park, per-day ADIF files and share them
+ */
+export const exportActivationADIF = async (
+  activation: Activation
+): Promise<{ success: boolean; message: string; files?: string[] }> => {
+  try {
+    const qsos = await getActivationQSOs(activation.id);
+    if (qsos.length === 0) {
+      return { success: false, message: 'No QSOs to export' };
+    }
+
+    // Each park's grid is my grid while there (cached park data is used when offline)
+    const parkGrids: Record<string, string> = {};
+    for (const park of activation.parkReferences) {
+      const { details } = await getParkDetails(park);
+      const grid = details?.park.grid6 || details?.park.grid4;
+      if (grid) {
+        parkGrids[park] = normalizeGrid(grid);
+      }
+    }
+
+    const files = buildActivationADIFFiles(activation, qsos, parkGrids);
+    const directory = `${FileSystem.documentDirectory}activations/`;
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+
+    const paths: string[] = [];
+    for (const file of files) {
+      const filePath = `${directory}${file.fileName}`;
+      await FileSystem.writeAsStringAsync(filePath, file.content, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+      paths.push(filePath);
+    }
+
+    if (await Sharing.isAvailableAsync()) {
+      // The share sheet takes one file at a time
+      for (const [index, filePath] of paths.entries()) {
+        await Sharing.shareAsync(filePath, {
+          mimeType: 'text/plain',
+          dialogTitle: `Export ${files[index].fileName} (${index + 1} of ${files.length})`,
+        });
+      }
+    }
+
+    return {
+      success: true,
+      message: `Exported ${files.length} ADIF file${files.length !== 1 ? 's' : ''}:\n${files.map(file => file.fileName).join('\n')}`,
+      files: paths,
+    };
+  } catch (error) {
+    console.error('Error exporting activation ADIF:', error);
+    return {
+      success: false,
+      message: `Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+};
+
+/**
+ * Subscribe to activation and activation QSO changes
+ * Returns an unsubscribe function
+ */
+export const subscribeToActivations = (listener: ActivationListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,184 @@
+/**
+ * ADIF (Amateur Data Interchange Format) helpers
+ *
+ * Parses .adi files into records of field name -> value.
+ * Field names are upper-cased, values are kept as-is.
+ */
+
+export type ADIFRecord = Record<string, string>;
+
+// Matches a data specifier: <NAME>, <NAME:LENGTH> or <NAME:LENGTH:TYPE>
+const TAG_PATTERN = /<([^:<>]+)(?::(\d+)(?::[^<>]*)?)?>/g;
+
+/**
+ * Parse ADIF text into records
+ * Anything before <EOH> is treated as the header and skipped
+ * (per the ADIF spec, a file without a header starts with '<')
+ */
+export const parseADIF = (text: string): ADIFRecord[] => {
+  let body = text;
+
+  if (!text.trimStart().startsWith('<')) {
+    const eohMatch = /<EOH>/i.exec(text);
+    body = eohMatch ? text.slice(eohMatch.index + eohMatch[0].length) : '';
+  }
+
+  const records: ADIFRecord[] = [];
+  let current: ADIFRecord = {};
+
+  TAG_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = TAG_PATTERN.exec(body)) !== null) {
+    const name = match[1].trim().toUpperCase();
+
+    if (name === 'EOR') {
+      if (Object.keys(current).length > 0) {
+        records.push(current);
+      }
+      current = {};
+      continue;
+    }
+
+    if (name === 'EOH') {
+      // Header without leading text - discard anything collected so far
+      current = {};
+      continue;
+    }
+
+    if (match[2] === undefined) {
+      continue;
+    }
+
+    const length = parseInt(match[2], 10);
+    const valueStart = TAG_PATTERN.lastIndex;
+    current[name] = body.substr(valueStart, length);
+    TAG_PATTERN.lastIndex = valueStart + length;
+  }
+
+  return records;
+};
+
+/**
+ * Convert ADIF QSO_DATE (YYYYMMDD) and TIME_ON (HHMM or HHMMSS) to an ISO 8601 timestamp
+ * Returns null if either is missing or invalid
+ */
+export const parseADIFDateTime = (qsoDate?: string, timeOn?: string): string | null => {
+  if (!qsoDate || !timeOn) {
+    return null;
+  }
+
+  const dateMatch = /^(\d{4})(\d{2})(\d{2})$/.exec(qsoDate.trim());
+  const timeMatch = /^(\d{2})(\d{2})(\d{2})?$/.exec(timeOn.trim());
+  if (!dateMatch || !timeMatch) {
+    return null;
+  }
+
+  const [, year, month, day] = dateMatch;
+  const [, hours, minutes, seconds = '00'] = timeMatch;
+  const date = new Date(Date.UTC(
+    parseInt(year, 10),
+    parseInt(month, 10) - 1,
+    parseInt(day, 10),
+    parseInt(hours, 10),
+    parseInt(minutes, 10),
+    parseInt(seconds, 10)
+  ));
+
+  // Reject rollovers such as month 13 or 25:00
+  if (
+    isNaN(date.getTime()) ||
+    date.getUTCMonth() !== parseInt(month, 10) - 1 ||
+    date.getUTCHours() !== parseInt(hours, 10)
+  ) {
+    return null;
+  }
+
+  return date.toISOString();
+};
+
+/**
+ * Convert an ADIF FREQ value (MHz) to kHz as used by the app
+ * Returns null if the value is not a number
+ */
+export const adifFrequencyToKHz = (freqMHz?: string): string | null => {
+  const freq = parseFloat(freqMHz ?? '');
+  if (isNaN(freq) || freq <= 0) {
+    return null;
+  }
+  // Round to 0.1 Hz to avoid floating point noise like 14062.000000001
+  return String(Math.round(freq * 1000 * 10000) / 10000);
+};
+
+/**
+ * Get the operating mode of an ADIF record
+ * SUBMODE is preferred for modes that carry the real mode there (e.g. MFSK/FT4, SSB/USB)
+ */
+export const getADIFMode = (record: ADIFRecord): string => {
+  const mode = (record.MODE || '').trim().toUpperCase();
+  const submode = (record.SUBMODE || '').trim().toUpperCase();
+
+  if (submode && (mode === 'MFSK' || mode === 'PSK' || mode === 'SSB')) {
+    return submode;
+  }
+  return mode || submode;
+};
+
+/**
+ * Format a single ADIF field as <NAME:LENGTH>value
+ * Returns an empty string for empty values so optional fields can be skipped
+ */
+export const formatADIFField = (name: string, value?: string): string => {
+  if (value === undefined || value === '') {
+    return '';
+  }
+  return `<${name.toUpperCase()}:${value.length}>${value} `;
+};
+
+/**
+ * Convert an ISO 8601 timestamp to ADIF QSO_DATE (YYYYMMDD) and TIME_ON (HHMMSS)
+ */
+export const formatADIFDateTime = (timestamp: string): { qsoDate: string; timeOn: string } => {
+  const [datePart, timePart] = new Date(timestamp).toISOString().split('T');
+  return {
+    qsoDate: datePart.replace(/-/g, ''),
+    timeOn: timePart.split('.')[0].replace(/:/g, ''),
+  };
+};
+
+/**
+ * Get the ADIF MODE and SUBMODE for an app mode
+ * ADIF files SSB sidebands and FT4 under their parent modes
+ */
+export const toADIFMode = (mode: string): { mode: string; submode?: string } => {
+  const upper = mode.trim().toUpperCase();
+  if (upper === 'USB' || upper === 'LSB') {
+    return { mode: 'SSB', submode: upper };
+  }
+  if (upper === 'FT4') {
+    return { mode: 'MFSK', submode: 'FT4' };
+  }
+  return { mode: upper };
+};
+
+/**
+ * Build ADIF text from records
+ * Fields are written in each record's insertion order
+ */
+export const buildADIF = (records: ADIFRecord[], headerText = 'ADIF Export from POTA Hunter'): string => {
+  const header = `${headerText}
+<ADIF_VER:5>3.1.4
+<PROGRAMID:11>POTA Hunter
+<PROGRAMVERSION:5>1.0.0
+<EOH>
+
+`;
+
+  const body = records.map(record =>
+    Object.entries(record)
+      .map(([name, value]) => formatADIFField(name, value))
+      .join('') + '<EOR>\n'
+  );
+
+  return header + body.join('\n');
+};
@@ -0,0 +1,158 @@
+import { AudioPlayer, createAudioPlayer } from 'expo-audio';
+import { SpotWithUserData, getBand, getBaseCallsign, matchesModeFilter } from '../types/spot';
+
+/**
+ * User-defined alert rule
+ * Every criterion that is set must match for the rule to fire
+ */
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  activator?: string;      // Activator callsign (portable prefixes/suffixes ignored)
+  parkReference?: string;  // Park reference, or a prefix ending in '*' (e.g. "VE-*")
+  location?: string;       // Location prefix (e.g. "US-ME")
+  band?: string;           // Band (e.g. "20m")
+  mode?: string;           // Mode filter value (e.g. "CW", "SSB")
+  neededOnly?: boolean;    // Only spots whose park/band/mode slot hasn't been worked
+}
+
+/**
+ * An alert raised by a rule for a newly arrived spot
+ */
+export interface SpotAlert {
+  spot: SpotWithUserData;
+  rule: AlertRule;
+  triggeredAt: string; // ISO 8601 timestamp
+}
+
+// Spots that have already alerted this session, so re-spots don't alert again
+const alertedSpotIds = new Set<number>();
+
+let alertPlayer: AudioPlayer | null = null;
+
+/**
+ * Generate a new alert rule ID
+ */
+export const createAlertRuleId = (): string =>
+  `rule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Check whether a rule has at least one criterion set
+ */
+export const hasAlertCriteria = (rule: AlertRule): boolean =>
+  Boolean(
+    rule.activator?.trim() ||
+    rule.parkReference?.trim() ||
+    rule.location?.trim() ||
+    rule.band?.trim() ||
+    rule.mode?.trim() ||
+    rule.neededOnly
+  );
+
+/**
+ * Check a spot against a single alert rule
+ */
+export const matchesAlertRule = (spot: SpotWithUserData, rule: AlertRule): boolean => {
+  if (!rule.enabled || !hasAlertCriteria(rule)) {
+    return false;
+  }
+
+  const activator = rule.activator?.trim();
+  if (activator && getBaseCallsign(spot.activator) !== getBaseCallsign(activator)) {
+    return false;
+  }
+
+  const parkReference = rule.parkReference?.trim().toUpperCase();
+  if (parkReference) {
+    const spotReference = spot.reference.toUpperCase();
+    if (parkReference.endsWith('*')) {
+      if (!spotReference.startsWith(parkReference.slice(0, -1))) {
+        return false;
+      }
+    } else if (spotReference !== parkReference) {
+      return false;
+    }
+  }
+
+  const location = rule.location?.trim().toUpperCase();
+  if (location) {
+    // locationDesc can list several locations, e.g. "US-ME,US-NH"
+    const locations = (spot.locationDesc || '')
+      .split(',')
+      .map(loc => loc.trim().toUpperCase());
+    if (!locations.some(loc => loc.startsWith(location))) {
+      return false;
+    }
+  }
+
+  const band = rule.band?.trim().toLowerCase();
+  if (band && getBand(spot.frequency) !== band) {
+    return false;
+  }
+
+  const mode = rule.mode?.trim();
+  if (mode && !matchesModeFilter(spot.mode, mode)) {
+    return false;
+  }
+
+  if (rule.neededOnly && spot.neededStatus === 'worked') {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Evaluate alert rules against newly arrived spots
+ * Each spotId alerts at most once per session
+ */
+export const collectSpotAlerts = (
+  spots: SpotWithUserData[],
+  rules: AlertRule[]
+): SpotAlert[] => {
+  const alerts: SpotAlert[] = [];
+
+  spots.forEach(spot => {
+    if (alertedSpotIds.has(spot.spotId)) {
+      return;
+    }
+
+    const rule = rules.find(r => matchesAlertRule(spot, r));
+    if (rule) {
+      alertedSpotIds.add(spot.spotId);
+      alerts.push({ spot, rule, triggeredAt: new Date().toISOString() });
+    }
+  });
+
+  return alerts;
+};
+
+/**
+ * Human readable summary of a rule's criteria
+ */
+export const describeAlertRule = (rule: AlertRule): string => {
+  const parts: string[] = [];
+  if (rule.neededOnly) parts.push('Needed only');
+  if (rule.band) parts.push(rule.band);
+  if (rule.mode) parts.push(rule.mode.toUpperCase());
+  if (rule.activator) parts.push(`Activator ${rule.activator.toUpperCase()}`);
+  if (rule.parkReference) parts.push(`Park ${rule.parkReference.toUpperCase()}`);
+  if (rule.location) parts.push(`In ${rule.location.toUpperCase()}`);
+  return parts.length > 0 ? parts.join(' · ') : 'No criteria';
+};
+
+/**
+ * Play the alert sound
+ */
+export const playAlertSound = () => {
+  try {
+    if (!alertPlayer) {
+      alertPlayer = createAudioPlayer(require('../../assets/sounds/alert.wav'));
+    }
+    alertPlayer.seekTo(0);
+    alertPlayer.play();
+  } catch (error) {
+    console.error('Error playing alert sound:', error);
+  }
+};
@@ -1,4 +1,5 @@
 import { Spot, SpotWithUserData } from '../types/spot';
+import { WorkedParkIndex, getNeededStatus } from './huntedParksService';
 
 const POTA_API_BASE = 'https://api.pota.app';
 
@@ -19,22 +20,26 @@ export const fetchActiveSpots = async (): Promise<Spot[]> => {
   }
 };
 
-// Transform spots to include user data (hunted status)
-// For now, this is a placeholder - you can implement local storage later
+// Transform spots to include user data (hunted and needed status)
+// workedParks comes from the hunted parks service (built from the internal log)
 export const enrichSpotsWithUserData = (
   spots: Spot[],
-  huntedParks: Set<string> = new Set()
+  workedParks: WorkedParkIndex = new Map()
 ): SpotWithUserData[] => {
-  return spots.map(spot => ({
-    ...spot,
-    isHunted: huntedParks.has(spot.reference),
-  }));
+  return spots.map(spot => {
+    const neededStatus = getNeededStatus(workedParks, spot.reference, spot.frequency, spot.mode);
+    return {
+      ...spot,
+      isHunted: neededStatus !== 'new-park',
+      neededStatus,
+    };
+  });
 };
 
 // Fetch spots with user data
 export const fetchSpotsWithUserData = async (
-  huntedParks: Set<string> = new Set()
+  workedParks: WorkedParkIndex = new Map()
 ): Promise<SpotWithUserData[]> => {
   const spots = await fetchActiveSpots();
-  return enrichSpotsWithUserData(spots, huntedParks);
+  return enrichSpotsWithUserData(spots, workedParks);
 };
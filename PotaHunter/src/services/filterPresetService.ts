@@ -0,0 +1,39 @@
+import { getBand, matchesModeFilter } from '../types/spot';
+
+/**
+ * Named band/mode filter presets (e.g. "Evening CW: 40m+30m+20m CW")
+ *
+ * Presets are stored with the spot list settings. Empty band or
+ * mode lists mean "all".
+ */
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  bands: string[];
+  modes: string[];
+}
+
+export const createFilterPresetId = (): string =>
+  `preset_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Check a spot's frequency against selected bands (empty matches all)
+ */
+export const matchesBandSelection = (frequency: string, bands: string[]): boolean =>
+  bands.length === 0 || bands.includes(getBand(frequency));
+
+/**
+ * Check a spot's mode against selected modes (empty matches all)
+ */
+export const matchesModeSelection = (mode: string, modes: string[]): boolean =>
+  modes.length === 0 || modes.some(filterMode => matchesModeFilter(mode, filterMode));
+
+/**
+ * Human-readable summary of a preset's filters (e.g. "40m+30m · CW")
+ */
+export const describeFilterPreset = (preset: Pick<FilterPreset, 'bands' | 'modes'>): string => {
+  const bands = preset.bands.length > 0 ? preset.bands.join('+') : 'All bands';
+  const modes = preset.modes.length > 0 ? preset.modes.join('+') : 'All modes';
+  return `${bands} · ${modes}`;
+};
@@ -0,0 +1,141 @@
+import { Spot } from '../types/spot';
+import { StationSettings } from '../context/SettingsContext';
+import { getGridCenter, isValidGrid, latLonToGrid, normalizeGrid } from './maidenheadService';
+
+/**
+ * Great-circle distance and bearing between stations
+ *
+ * Uses a spherical earth, which is well within the accuracy
+ * of a park's coordinates or a grid square center
+ */
+
+const EARTH_RADIUS_KM = 6371;
+
+export interface LatLon {
+  latitude: number;   // Degrees, north positive
+  longitude: number;  // Degrees, east positive
+}
+
+// Path from my station to a spot
+export interface SpotPath {
+  distanceKm: number;
+  bearing: number;  // Initial bearing in degrees from true north, 0-360
+}
+
+const COMPASS_POINTS = [
+  'N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
+  'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW',
+];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Check that a latitude/longitude pair is on the globe
+ */
+export const isValidLatLon = (latitude: number, longitude: number): boolean =>
+  Number.isFinite(latitude) &&
+  Number.isFinite(longitude) &&
+  Math.abs(latitude) <= 90 &&
+  Math.abs(longitude) <= 180;
+
+/**
+ * Great-circle distance in km (haversine formula)
+ */
+export const getDistanceKm = (from: LatLon, to: LatLon): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Initial great-circle bearing in degrees (0-360, 0 = north)
+ * This is the direction to point a beam antenna
+ */
+export const getBearing = (from: LatLon, to: LatLon): number => {
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+};
+
+/**
+ * 16-point compass direction for a bearing (e.g. 40 -> "NE")
+ */
+export const getCompassPoint = (bearing: number): string =>
+  COMPASS_POINTS[Math.round(bearing / 22.5) % COMPASS_POINTS.length];
+
+/**
+ * Format a path for display (e.g. "1,234 km · 45° NE")
+ */
+export const formatSpotPath = (path: SpotPath): string =>
+  `${Math.round(path.distanceKm).toLocaleString()} km · ${Math.round(path.bearing) % 360}° ${getCompassPoint(path.bearing)}`;
+
+/**
+ * Format a location for display (e.g. "42.36°N 71.06°W")
+ */
+export const formatLatLon = (location: LatLon): string =>
+  `${Math.abs(location.latitude).toFixed(2)}°${location.latitude >= 0 ? 'N' : 'S'} ` +
+  `${Math.abs(location.longitude).toFixed(2)}°${location.longitude >= 0 ? 'E' : 'W'}`;
+
+/**
+ * My station location from settings, or null if not set
+ */
+export const getStationLocation = (settings: StationSettings): LatLon | null => {
+  if (settings.locationSource === 'coordinates') {
+    const { latitude, longitude } = settings;
+    return latitude !== null && longitude !== null && isValidLatLon(latitude, longitude)
+      ? { latitude, longitude }
+      : null;
+  }
+  return getGridCenter(settings.grid);
+};
+
+/**
+ * My station's grid for logging (6 characters when set from coordinates)
+ * Returns an empty string if no valid location is set
+ */
+export const getStationGrid = (settings: StationSettings): string => {
+  if (settings.locationSource === 'coordinates') {
+    const location = getStationLocation(settings);
+    return location ? latLonToGrid(location.latitude, location.longitude) : '';
+  }
+  const grid = normalizeGrid(settings.grid);
+  return isValidGrid(grid) ? grid : '';
+};
+
+/**
+ * A spot's location: the park's coordinates, falling back to its grid
+ */
+export const getSpotLocation = (
+  spot: Pick<Spot, 'latitude' | 'longitude' | 'grid4' | 'grid6'>
+): LatLon | null => {
+  // Parks missing coordinates come through as 0,0
+  if (isValidLatLon(spot.latitude, spot.longitude) && (spot.latitude !== 0 || spot.longitude !== 0)) {
+    return { latitude: spot.latitude, longitude: spot.longitude };
+  }
+  return getGridCenter(spot.grid6 || '') ?? getGridCenter(spot.grid4 || '');
+};
+
+/**
+ * Distance and bearing from my station to a spot
+ * Returns null if the spot has no usable location
+ */
+export const getSpotPath = (
+  from: LatLon,
+  spot: Pick<Spot, 'latitude' | 'longitude' | 'grid4' | 'grid6'>
+): SpotPath | null => {
+  const to = getSpotLocation(spot);
+  if (!to) {
+    return null;
+  }
+  return {
+    distanceKm: getDistanceKm(from, to),
+    bearing: getBearing(from, to),
+  };
+};
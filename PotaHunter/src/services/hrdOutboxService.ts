@@ -0,0 +1,241 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { HRDSettings } from '../context/SettingsContext';
+import { QSOLogData, checkRelayHealth, logQSOToHRD } from './hrdService';
+import { InternalLogEntry, getInternalLogEntry, setLogDeliveryStatus } from './internalLogService';
+
+/**
+ * Outbox of QSOs waiting to be logged to HRD
+ *
+ * QSOs that couldn't be sent to the relay are queued here and retried
+ * with backoff once the relay health check succeeds again.
+ */
+
+const STORAGE_KEY = '@pota_hunter:hrd_outbox';
+
+// Give up (mark as failed) after this many attempts
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+export interface OutboxItem {
+  logId: string;          // Internal log entry the QSO was saved as
+  qso: QSOLogData;        // As first sent; retries send the log entry as it is then
+  queuedAt: string;       // ISO 8601
+  attempts: number;
+  nextAttemptAt: number;  // Epoch ms
+  lastError?: string;
+  deliveredRecords?: string[];  // Park pair records the relay already logged, not resent
+  status: 'pending' | 'failed';
+}
+
+export interface OutboxCounts {
+  pending: number;
+  failed: number;
+}
+
+type OutboxListener = (counts: OutboxCounts) => void;
+
+const listeners = new Set<OutboxListener>();
+
+// Only one outbox run at a time
+let processing: Promise<void> | null = null;
+
+/**
+ * Delay before the next attempt after a failed one
+ */
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY_MS);
+
+const readOutbox = async (): Promise<OutboxItem[]> => {
+  const data = await AsyncStorage.getItem(STORAGE_KEY);
+  return data ? JSON.parse(data) : [];
+};
+
+const countItems = (items: OutboxItem[]): OutboxCounts => ({
+  pending: items.filter(item => item.status === 'pending').length,
+  failed: items.filter(item => item.status === 'failed').length,
+});
+
+const writeOutbox = async (items: OutboxItem[]): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  const counts = countItems(items);
+  listeners.forEach(listener => listener(counts));
+};
+
+// Relay payload for a log entry as it is now, so edits made while queued are sent
+const toQSOLogData = (entry: InternalLogEntry): QSOLogData => ({
+  callsign: entry.callsign,
+  frequency: entry.frequency,
+  mode: entry.mode,
+  rstSent: entry.rstSent,
+  rstReceived: entry.rstReceived,
+  comment: entry.comment,
+  parkReference: entry.parkReference || undefined,
+  myParkReference: entry.myParkReference,
+  gridSquare: entry.gridSquare,
+  myGridSquare: entry.myGridSquare,
+  myCallsign: entry.myCallsign,
+  timestamp: entry.timestamp,
+});
+
+/**
+ * Queue a QSO for delivery to HRD
+ */
+export const enqueueHRDDelivery = async (
+  logId: string,
+  qso: QSOLogData,
+  lastError?: string,
+  deliveredRecords?: string[]
+): Promise<boolean> => {
+  try {
+    const items = await readOutbox();
+    items.push({
+      logId,
+      qso,
+      queuedAt: new Date().toISOString(),
+      attempts: 1,
+      nextAttemptAt: Date.now() + getRetryDelay(1),
+      lastError,
+      deliveredRecords,
+      status: 'pending',
+    });
+    await writeOutbox(items);
+    await setLogDeliveryStatus(logId, 'pending');
+    return true;
+  } catch (error) {
+    console.error('Error queueing HRD delivery:', error);
+    return false;
+  }
+};
+
+/**
+ * Get the number of pending and failed deliveries
+ */
+export const getOutboxCounts = async (): Promise<OutboxCounts> => {
+  try {
+    return countItems(await readOutbox());
+  } catch (error) {
+    console.error('Error reading HRD outbox:', error);
+    return { pending: 0, failed: 0 };
+  }
+};
+
+const runOutbox = async (settings: HRDSettings, force: boolean): Promise<void> => {
+  const now = Date.now();
+  const due = (await readOutbox()).filter(
+    item => item.status === 'pending' && (force || item.nextAttemptAt <= now)
+  );
+  if (due.length === 0) {
+    return;
+  }
+
+  const health = await checkRelayHealth(settings);
+  if (!health.success) {
+    return;
+  }
+
+  const removed = new Set<string>();
+  const updated = new Map<string, OutboxItem>();
+
+  for (const item of due) {
+    // Drop QSOs that were deleted from the internal log while queued
+    const entry = await getInternalLogEntry(item.logId);
+    if (!entry) {
+      removed.add(item.logId);
+      continue;
+    }
+
+    const result = await logQSOToHRD(settings, {
+      ...toQSOLogData(entry),
+      deliveredRecords: item.deliveredRecords,
+    });
+
+    if (result.success) {
+      removed.add(item.logId);
+      await setLogDeliveryStatus(item.logId, 'delivered');
+      console.log(`[HRDOutbox] Delivered ${entry.callsign} after ${item.attempts + 1} attempts`);
+      continue;
+    }
+
+    const attempts = item.attempts + 1;
+    const failed = attempts >= MAX_DELIVERY_ATTEMPTS;
+    updated.set(item.logId, {
+      ...item,
+      attempts,
+      nextAttemptAt: Date.now() + getRetryDelay(attempts),
+      lastError: result.message,
+      deliveredRecords: result.deliveredRecords ?? item.deliveredRecords,
+      status: failed ? 'failed' : 'pending',
+    });
+    if (failed) {
+      await setLogDeliveryStatus(item.logId, 'failed');
+    }
+  }
+
+  // Re-read so items queued during this run are kept
+  const items = await readOutbox();
+  await writeOutbox(
+    items
+      .filter(item => !removed.has(item.logId))
+      .map(item => updated.get(item.logId) ?? item)
+  );
+};
+
+/**
+ * Retry pending deliveries that are due
+ * Nothing is sent unless the relay health check succeeds.
+ * `force` ignores the backoff and retries every pending item.
+ */
+export const processOutbox = (settings: HRDSettings, force = false): Promise<void> => {
+  if (!settings.enabled) {
+    return Promise.resolve();
+  }
+  if (!processing) {
+    processing = runOutbox(settings, force)
+      .catch(error => {
+        console.error('Error processing HRD outbox:', error);
+      })
+      .finally(() => {
+        processing = null;
+      });
+  }
+  return processing;
+};
+
+/**
+ * Move failed deliveries back to pending and retry everything now
+ */
+export const retryFailedDeliveries = async (settings: HRDSettings): Promise<void> => {
+  if (processing) {
+    await processing;
+  }
+  try {
+    const items = await readOutbox();
+    const failedIds = items.filter(item => item.status === 'failed').map(item => item.logId);
+    if (failedIds.length > 0) {
+      await writeOutbox(
+        items.map(item =>
+          item.status === 'failed'
+            ? { ...item, attempts: 0, status: 'pending', nextAttemptAt: Date.now() }
+            : item
+        )
+      );
+      await Promise.all(failedIds.map(id => setLogDeliveryStatus(id, 'pending')));
+    }
+  } catch (error) {
+    console.error('Error resetting failed deliveries:', error);
+  }
+  await processOutbox(settings, true);
+};
+
+/**
+ * Subscribe to outbox count changes
+ * Returns an unsubscribe function
+ */
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -8,6 +8,11 @@ export interface HRDResponse {
   message: string;
 }
 
+// Result of logging a QSO through the relay
+export interface HRDLogResponse extends HRDResponse {
+  deliveredRecords?: string[];  // Park pair records logged so far, even if the request failed
+}
+
 // Convert frequency from kHz (API format) to Hz (HRD format)
 export const kHzToHz = (kHz: string): number => {
   const freq = parseFloat(kHz);
@@ -152,14 +157,19 @@ export interface QSOLogData {
   rstSent: string;
   rstReceived: string;
   comment?: string;
-  parkReference?: string;
+  parkReference?: string;    // Their park(s), comma-separated
+  myParkReference?: string;  // My park(s) for park-to-park contacts
+  gridSquare?: string;       // Their Maidenhead grid
+  myGridSquare?: string;     // My Maidenhead grid
   myCallsign?: string;
+  timestamp: string;         // QSO time, ISO 8601 UTC
+  deliveredRecords?: string[];  // Records an earlier attempt logged, skipped by the relay
 }
 
 export const logQSOToHRD = async (
   settings: HRDSettings,
   qsoData: QSOLogData
-): Promise<HRDResponse> => {
+): Promise<HRDLogResponse> => {
   if (!settings.enabled) {
     return { success: false, message: 'HRD connection is disabled' };
   }
@@ -184,11 +194,13 @@ export const logQSOToHRD = async (
       return {
         success: true,
         message: data.message || `QSO logged: ${qsoData.callsign}`,
+        deliveredRecords: data.deliveredRecords,
       };
     } else {
       return {
         success: false,
         message: data.message || 'Failed to log QSO',
+        deliveredRecords: data.deliveredRecords,
       };
     }
   } catch (error) {
@@ -0,0 +1,149 @@
+import {
+  InternalLogEntry,
+  getInternalLogs,
+  subscribeToLogChanges,
+} from './internalLogService';
+import {
+  ModeCategory,
+  NeededStatus,
+  getBand,
+  getModeCategory,
+  normalizeParkReference,
+  parseParkReferences,
+} from '../types/spot';
+
+/**
+ * Bands and band/mode combinations worked at a single park
+ */
+export interface WorkedPark {
+  bands: Set<string>;
+  slots: Set<string>; // band/mode category pairs, see getSlotKey
+}
+
+// Worked parks keyed by normalized park reference
+export type WorkedParkIndex = Map<string, WorkedPark>;
+
+type HuntedParksListener = (index: WorkedParkIndex) => void;
+
+let cachedIndex: WorkedParkIndex | null = null;
+const listeners = new Set<HuntedParksListener>();
+
+const getSlotKey = (band: string, mode: ModeCategory): string => `${band}|${mode}`;
+
+/**
+ * Build the worked park index from internal log entries
+ */
+export const buildWorkedParkIndex = (logs: InternalLogEntry[]): WorkedParkIndex => {
+  const index: WorkedParkIndex = new Map();
+
+  logs.forEach(log => {
+    const band = getBand(log.frequency);
+    const mode = getModeCategory(log.mode);
+
+    // A contact with an n-fer activator counts for each of their parks
+    parseParkReferences(log.parkReference || '').forEach(reference => {
+      let park = index.get(reference);
+      if (!park) {
+        park = { bands: new Set(), slots: new Set() };
+        index.set(reference, park);
+      }
+
+      park.bands.add(band);
+      park.slots.add(getSlotKey(band, mode));
+    });
+  });
+
+  return index;
+};
+
+/**
+ * Build the set of worked park references from internal log entries
+ */
+export const buildHuntedParks = (logs: InternalLogEntry[]): Set<string> =>
+  new Set(buildWorkedParkIndex(logs).keys());
+
+/**
+ * Determine whether a park/frequency/mode combination is still needed
+ */
+export const getNeededStatus = (
+  index: WorkedParkIndex,
+  reference: string,
+  frequency: string,
+  mode: string
+): NeededStatus => {
+  const park = index.get(normalizeParkReference(reference));
+  if (!park) {
+    return 'new-park';
+  }
+
+  const band = getBand(frequency);
+  if (!park.bands.has(band)) {
+    return 'new-band';
+  }
+
+  if (!park.slots.has(getSlotKey(band, getModeCategory(mode)))) {
+    return 'new-mode';
+  }
+
+  return 'worked';
+};
+
+/**
+ * Get the worked park index
+ * Built from the internal log on first use and kept in memory afterwards
+ */
+export const getWorkedParkIndex = async (): Promise<WorkedParkIndex> => {
+  if (cachedIndex) {
+    return cachedIndex;
+  }
+  return refreshHuntedParks();
+};
+
+/**
+ * Get the set of hunted park references
+ */
+export const getHuntedParks = async (): Promise<Set<string>> => {
+  const index = await getWorkedParkIndex();
+  return new Set(index.keys());
+};
+
+/**
+ * Rebuild the worked park index from the internal log and notify subscribers
+ */
+export const refreshHuntedParks = async (): Promise<WorkedParkIndex> => {
+  try {
+    const logs = await getInternalLogs();
+    cachedIndex = buildWorkedParkIndex(logs);
+  } catch (error) {
+    console.error('Error building hunted parks:', error);
+    cachedIndex = cachedIndex ?? new Map();
+  }
+
+  const index = cachedIndex;
+  listeners.forEach(listener => listener(index));
+  return index;
+};
+
+/**
+ * Check if a park has been hunted
+ */
+export const isParkHunted = async (reference: string): Promise<boolean> => {
+  const index = await getWorkedParkIndex();
+  return index.has(normalizeParkReference(reference));
+};
+
+/**
+ * Subscribe to worked park index updates
+ * Returns an unsubscribe function
+ */
+export const subscribeToHuntedParks = (listener: HuntedParksListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Keep the worked park index in sync with the internal log
+subscribeToLogChanges(() => {
+  refreshHuntedParks();
+});
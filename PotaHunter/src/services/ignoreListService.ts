@@ -0,0 +1,201 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  Spot,
+  getBaseCallsign,
+  isValidCallsign,
+  isValidParkReference,
+  normalizeParkReference,
+} from '../types/spot';
+
+const IGNORE_LIST_KEY = '@pota_hunter:ignore_list';
+
+// A park prefix pattern (VK-*, US-*)
+const PARK_PREFIX_PATTERN = /^[A-Z0-9-]+\*$/;
+
+/**
+ * Activators and parks hidden from the spot list and alerts
+ *
+ * Activators match by base callsign. Parks match exactly, or by
+ * prefix when the entry ends in '*' (e.g. "VK-*"), the same as alert rules.
+ * Entries can expire; expired entries are dropped when the list is read.
+ */
+export type IgnoreEntryType = 'activator' | 'park';
+
+export interface IgnoreEntry {
+  id: string;
+  type: IgnoreEntryType;
+  value: string;             // Base callsign or park reference (pattern)
+  createdAt: string;         // ISO 8601 timestamp
+  expiresAt: string | null;  // ISO 8601 timestamp, null for permanent
+}
+
+// How long a new entry lasts (null = permanent)
+export const IGNORE_DURATION_OPTIONS: { label: string; durationMs: number | null }[] = [
+  { label: '1 hour', durationMs: 60 * 60 * 1000 },
+  { label: '1 day', durationMs: 24 * 60 * 60 * 1000 },
+  { label: '1 week', durationMs: 7 * 24 * 60 * 60 * 1000 },
+  { label: 'Permanent', durationMs: null },
+];
+
+type IgnoreListListener = (entries: IgnoreEntry[]) => void;
+
+const listeners = new Set<IgnoreListListener>();
+
+const createIgnoreEntryId = (): string =>
+  `ignore_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Subscribe to ignore list changes (add, remove, expiry)
+ * Returns an unsubscribe function
+ */
+export const subscribeToIgnoreList = (listener: IgnoreListListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyListeners = (entries: IgnoreEntry[]) => {
+  listeners.forEach(listener => {
+    try {
+      listener(entries);
+    } catch (error) {
+      console.error('Error in ignore list listener:', error);
+    }
+  });
+};
+
+const saveIgnoreList = async (entries: IgnoreEntry[]): Promise<void> => {
+  await AsyncStorage.setItem(IGNORE_LIST_KEY, JSON.stringify(entries));
+  notifyListeners(entries);
+};
+
+/**
+ * Check whether an entry has expired
+ */
+export const isIgnoreEntryExpired = (entry: IgnoreEntry, now: number = Date.now()): boolean =>
+  entry.expiresAt !== null && new Date(entry.expiresAt).getTime() <= now;
+
+/**
+ * Normalize an entry value for its type (e.g. "ve3/w1abc" -> "W1ABC")
+ */
+export const normalizeIgnoreValue = (type: IgnoreEntryType, value: string): string =>
+  type === 'activator' ? getBaseCallsign(value) : normalizeParkReference(value);
+
+/**
+ * Check that a value can be ignored: a callsign, or a park reference or prefix pattern
+ */
+export const isValidIgnoreValue = (type: IgnoreEntryType, value: string): boolean =>
+  type === 'activator'
+    ? isValidCallsign(value)
+    : isValidParkReference(value) || PARK_PREFIX_PATTERN.test(normalizeParkReference(value));
+
+/**
+ * Get the ignore list, dropping any expired entries
+ */
+export const getIgnoreList = async (): Promise<IgnoreEntry[]> => {
+  try {
+    const data = await AsyncStorage.getItem(IGNORE_LIST_KEY);
+    if (!data) {
+      return [];
+    }
+
+    const entries = JSON.parse(data) as IgnoreEntry[];
+    const active = entries.filter(entry => !isIgnoreEntryExpired(entry));
+    if (active.length !== entries.length) {
+      await saveIgnoreList(active);
+    }
+    return active;
+  } catch (error) {
+    console.error('Error reading ignore list:', error);
+    return [];
+  }
+};
+
+/**
+ * Add an activator or park to the ignore list
+ * Re-adding an existing entry replaces its expiry
+ */
+export const addIgnoreEntry = async (
+  type: IgnoreEntryType,
+  value: string,
+  durationMs: number | null
+): Promise<boolean> => {
+  try {
+    const normalized = normalizeIgnoreValue(type, value);
+    if (!normalized) {
+      return false;
+    }
+
+    const now = Date.now();
+    const entry: IgnoreEntry = {
+      id: createIgnoreEntryId(),
+      type,
+      value: normalized,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: durationMs === null ? null : new Date(now + durationMs).toISOString(),
+    };
+
+    const existing = await getIgnoreList();
+    const updated = existing.filter(e => e.type !== type || e.value !== normalized);
+    await saveIgnoreList([...updated, entry]);
+    return true;
+  } catch (error) {
+    console.error('Error adding ignore entry:', error);
+    return false;
+  }
+};
+
+/**
+ * Remove an entry from the ignore list
+ */
+export const removeIgnoreEntry = async (id: string): Promise<boolean> => {
+  try {
+    const existing = await getIgnoreList();
+    await saveIgnoreList(existing.filter(entry => entry.id !== id));
+    return true;
+  } catch (error) {
+    console.error('Error removing ignore entry:', error);
+    return false;
+  }
+};
+
+const matchesIgnoreEntry = (spot: Pick<Spot, 'activator' | 'reference'>, entry: IgnoreEntry): boolean => {
+  if (entry.type === 'activator') {
+    return getBaseCallsign(spot.activator) === entry.value;
+  }
+
+  const reference = normalizeParkReference(spot.reference);
+  return entry.value.endsWith('*')
+    ? reference.startsWith(entry.value.slice(0, -1))
+    : reference === entry.value;
+};
+
+/**
+ * Check whether a spot is hidden by an unexpired ignore entry
+ */
+export const isSpotIgnored = (
+  spot: Pick<Spot, 'activator' | 'reference'>,
+  entries: IgnoreEntry[],
+  now: number = Date.now()
+): boolean =>
+  entries.some(entry => !isIgnoreEntryExpired(entry, now) && matchesIgnoreEntry(spot, entry));
+
+/**
+ * Human readable time left on an entry (e.g. "Expires in 3h", "Permanent")
+ */
+export const describeIgnoreExpiry = (entry: IgnoreEntry, now: number = Date.now()): string => {
+  if (entry.expiresAt === null) {
+    return 'Permanent';
+  }
+
+  const remainingMinutes = Math.max(Math.ceil((new Date(entry.expiresAt).getTime() - now) / 60000), 0);
+  if (remainingMinutes < 60) {
+    return `Expires in ${remainingMinutes}m`;
+  }
+  const remainingHours = Math.round(remainingMinutes / 60);
+  if (remainingHours < 48) {
+    return `Expires in ${remainingHours}h`;
+  }
+  return `Expires in ${Math.round(remainingHours / 24)}d`;
+};
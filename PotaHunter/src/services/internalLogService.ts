@@ -1,13 +1,44 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import {
+  getBand,
+  getBaseCallsign,
+  getModeCategory,
+  isValidParkReference,
+  normalizeParkReference,
+  parseParkReferences,
+} from '../types/spot';
+import {
+  ADIFRecord,
+  adifFrequencyToKHz,
+  buildADIF,
+  formatADIFDateTime,
+  getADIFMode,
+  parseADIF,
+  parseADIFDateTime,
+} from './adifService';
+import {
+  LogQuery,
+  LogQueryResult,
+  clearLogRecords,
+  countLogRecords,
+  deleteLogRecord,
+  getAllLogRecords,
+  putLogRecord,
+  getLogRecord,
+  putLogRecords,
+  queryLogRecords,
+} from './logStore';
+import { isValidGrid, normalizeGrid } from './maidenheadService';
 
 // Internal log entry type
 export interface InternalLogEntry {
   id: string;
   timestamp: string; // ISO 8601 timestamp
   callsign: string;
-  parkReference: string;
+  parkReference: string; // Their park(s), comma-separated for n-fers
+  myParkReference?: string; // My park(s) for park-to-park contacts, comma-separated
   frequency: string; // in kHz
   mode: string;
   rstSent: string;
@@ -16,38 +47,113 @@ export interface InternalLogEntry {
   myCallsign?: string;
   parkName?: string;
   locationDesc?: string;
+  gridSquare?: string; // Their Maidenhead grid (the park's grid for hunted QSOs)
+  myGridSquare?: string; // My Maidenhead grid when the QSO was logged
   // Additional metadata
-  savedReason: 'relay-unavailable' | 'hrd-error' | 'manual';
+  savedReason: 'relay-unavailable' | 'hrd-error' | 'manual' | 'imported';
+  deliveryStatus?: DeliveryStatus; // Missing on entries saved before delivery tracking
+  editHistory?: LogEntryEdit[]; // Oldest first
 }
 
-const STORAGE_KEY = '@pota_hunter:internal_logs';
+// Whether a QSO has reached HRD via the relay
+// - delivered: logged to HRD
+// - pending: queued in the HRD outbox for retry
+// - failed: gave up after repeated retries
+// - local-only: saved locally without HRD (relay disabled or imported)
+export type DeliveryStatus = 'delivered' | 'pending' | 'failed' | 'local-only';
+
+// Fields that can be changed after a QSO is logged
+export type EditableLogField =
+  | 'timestamp'
+  | 'callsign'
+  | 'parkReference'
+  | 'myParkReference'
+  | 'frequency'
+  | 'mode'
+  | 'rstSent'
+  | 'rstReceived'
+  | 'comment';
+
+// A single edit to a log entry
+export interface LogEntryEdit {
+  editedAt: string; // ISO 8601 timestamp
+  changes: Partial<Record<EditableLogField, { from: string; to: string }>>;
+}
+
+export type LogEntryUpdate = Partial<Pick<InternalLogEntry, EditableLogField>>;
+
+const EDITABLE_LOG_FIELDS: EditableLogField[] = [
+  'timestamp',
+  'callsign',
+  'parkReference',
+  'myParkReference',
+  'frequency',
+  'mode',
+  'rstSent',
+  'rstReceived',
+  'comment',
+];
+
+// Result of an ADIF import
+export interface ADIFImportResult {
+  success: boolean;
+  message: string;
+  imported: number;  // ADIF records added (a park-to-park record may add several entries)
+  skipped: number;   // Already in the log (or repeated in the file)
+  malformed: number; // Missing callsign, date/time, frequency or mode
+}
+
+const createLogId = (): string =>
+  `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+type LogChangeListener = () => void;
+
+const logChangeListeners = new Set<LogChangeListener>();
+
+/**
+ * Subscribe to changes in the internal log (save, delete, clear)
+ * Returns an unsubscribe function
+ */
+export const subscribeToLogChanges = (listener: LogChangeListener): (() => void) => {
+  logChangeListeners.add(listener);
+  return () => {
+    logChangeListeners.delete(listener);
+  };
+};
+
+const notifyLogChanges = () => {
+  logChangeListeners.forEach(listener => {
+    try {
+      listener();
+    } catch (error) {
+      console.error('Error in log change listener:', error);
+    }
+  });
+};
 
 /**
  * Save a QSO to the internal log
+ * The QSO time defaults to now
  */
 export const saveToInternalLog = async (
-  entry: Omit<InternalLogEntry, 'id' | 'timestamp'>
-): Promise<{ success: boolean; message: string }> => {
+  entry: Omit<InternalLogEntry, 'id' | 'timestamp'> & { timestamp?: string }
+): Promise<{ success: boolean; message: string; entry?: InternalLogEntry }> => {
   try {
-    const id = `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const timestamp = new Date().toISOString();
-
     const newEntry: InternalLogEntry = {
-      id,
-      timestamp,
       ...entry,
+      id: createLogId(),
+      timestamp: entry.timestamp ?? new Date().toISOString(),
     };
 
-    // Get existing logs
-    const existing = await getInternalLogs();
-    const updated = [newEntry, ...existing];
+    await putLogRecord(newEntry);
+    notifyLogChanges();
 
-    // Save to AsyncStorage
-    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    const total = await countLogRecords();
 
     return {
       success: true,
-      message: `QSO saved to internal log (${updated.length} total)`,
+      message: `QSO saved to internal log (${total} total)`,
+      entry: newEntry,
     };
   } catch (error) {
     console.error('Error saving to internal log:', error);
@@ -63,26 +169,238 @@ export const saveToInternalLog = async (
  */
 export const getInternalLogs = async (): Promise<InternalLogEntry[]> => {
   try {
-    const data = await AsyncStorage.getItem(STORAGE_KEY);
-    if (!data) {
-      return [];
-    }
-    return JSON.parse(data) as InternalLogEntry[];
+    return await getAllLogRecords();
   } catch (error) {
     console.error('Error reading internal logs:', error);
     return [];
   }
 };
 
+/**
+ * Get a page of internal log entries (newest first)
+ * Optionally filtered by park reference, callsign and/or UTC date (YYYY-MM-DD)
+ */
+export const getInternalLogsPage = async (query: LogQuery): Promise<LogQueryResult> => {
+  try {
+    return await queryLogRecords(query);
+  } catch (error) {
+    console.error('Error querying internal logs:', error);
+    return { entries: [], total: 0 };
+  }
+};
+
+/**
+ * Find an earlier QSO that would make this one a dupe
+ * POTA counts a dupe as the same activator at the same park,
+ * on the same band and mode, on the same UTC day
+ * For n-fer activations, sharing any one park is enough
+ */
+export const findDuplicateQSO = async (
+  qso: Pick<InternalLogEntry, 'callsign' | 'parkReference' | 'frequency' | 'mode'>,
+  date: Date = new Date()
+): Promise<InternalLogEntry | null> => {
+  const utcDay = date.toISOString().split('T')[0];
+  const { entries: logs } = await getInternalLogsPage({ callsign: qso.callsign, date: utcDay });
+
+  const callsign = getBaseCallsign(qso.callsign);
+  const parks = new Set(parseParkReferences(qso.parkReference));
+  const band = getBand(qso.frequency);
+  const mode = getModeCategory(qso.mode);
+
+  const sharesPark = (log: InternalLogEntry) => {
+    const logParks = parseParkReferences(log.parkReference || '');
+    return parks.size === 0 && logParks.length === 0
+      ? true
+      : logParks.some(park => parks.has(park));
+  };
+
+  return logs.find(log =>
+    getBaseCallsign(log.callsign) === callsign &&
+    sharesPark(log) &&
+    getBand(log.frequency) === band &&
+    getModeCategory(log.mode) === mode
+  ) ?? null;
+};
+
+/**
+ * Validate QSO fields
+ * Returns a list of problems (empty if valid)
+ */
+export const validateLogEntry = (entry: LogEntryUpdate): string[] => {
+  const errors: string[] = [];
+
+  if (entry.callsign !== undefined) {
+    const callsign = entry.callsign.trim();
+    if (!callsign) {
+      errors.push('Callsign is required');
+    } else if (!/^[A-Z0-9/]+$/i.test(callsign) || !/\d/.test(callsign)) {
+      errors.push(`"${callsign}" is not a valid callsign`);
+    }
+  }
+
+  (['parkReference', 'myParkReference'] as const).forEach(field => {
+    const value = entry[field];
+    if (value === undefined || !value.trim()) {
+      return;
+    }
+    const invalid = parseParkReferences(value).filter(ref => !isValidParkReference(ref));
+    if (invalid.length > 0) {
+      errors.push(`Invalid ${field === 'myParkReference' ? 'my park' : 'park'} reference: ${invalid.join(', ')}`);
+    }
+  });
+
+  if (entry.frequency !== undefined) {
+    const freq = parseFloat(entry.frequency);
+    if (isNaN(freq) || freq <= 0) {
+      errors.push('Frequency must be a positive number (kHz)');
+    }
+  }
+
+  if (entry.mode !== undefined && !entry.mode.trim()) {
+    errors.push('Mode is required');
+  }
+
+  // RST allows signal reports from digital modes (e.g. -10)
+  (['rstSent', 'rstReceived'] as const).forEach(field => {
+    const value = entry[field];
+    if (value !== undefined && value.trim() && !/^[+-]?\d{1,3}$/.test(value.trim())) {
+      errors.push(`${field === 'rstSent' ? 'RST sent' : 'RST received'} must be 1-3 digits`);
+    }
+  });
+
+  if (entry.timestamp !== undefined) {
+    const time = new Date(entry.timestamp).getTime();
+    if (isNaN(time)) {
+      errors.push('Date/time is not valid');
+    } else if (time > Date.now() + 60000) {
+      errors.push('Date/time is in the future');
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Update an existing log entry
+ * Changed fields are validated and recorded in the entry's edit history
+ */
+export const updateLogEntry = async (
+  id: string,
+  updates: LogEntryUpdate
+): Promise<{ success: boolean; message: string; entry?: InternalLogEntry }> => {
+  try {
+    const existing = await getLogRecord(id);
+    if (!existing) {
+      return { success: false, message: 'Log entry not found' };
+    }
+
+    const changes: LogEntryEdit['changes'] = {};
+    EDITABLE_LOG_FIELDS.forEach(field => {
+      const value = updates[field];
+      if (value === undefined) {
+        return;
+      }
+      const from = existing[field] ?? '';
+      if (value !== from) {
+        changes[field] = { from, to: value };
+      }
+    });
+
+    if (Object.keys(changes).length === 0) {
+      return { success: true, message: 'No changes', entry: existing };
+    }
+
+    const errors = validateLogEntry(updates);
+    if (errors.length > 0) {
+      return { success: false, message: errors.join('\n') };
+    }
+
+    const updated: InternalLogEntry = {
+      ...existing,
+      ...updates,
+      comment: updates.comment !== undefined ? updates.comment || undefined : existing.comment,
+      myParkReference: updates.myParkReference !== undefined
+        ? updates.myParkReference || undefined
+        : existing.myParkReference,
+      editHistory: [
+        ...(existing.editHistory ?? []),
+        { editedAt: new Date().toISOString(), changes },
+      ],
+    };
+
+    await putLogRecord(updated);
+    notifyLogChanges();
+
+    return { success: true, message: 'Log entry updated', entry: updated };
+  } catch (error) {
+    console.error('Error updating log entry:', error);
+    return {
+      success: false,
+      message: `Failed to update log entry: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+};
+
+/**
+ * Get the HRD delivery status of an entry
+ * Entries saved before delivery tracking fall back to their save reason
+ */
+export const getDeliveryStatus = (entry: InternalLogEntry): DeliveryStatus => {
+  if (entry.deliveryStatus) {
+    return entry.deliveryStatus;
+  }
+  switch (entry.savedReason) {
+    case 'manual':
+      return 'delivered';
+    case 'hrd-error':
+      return 'failed';
+    default:
+      return 'local-only';
+  }
+};
+
+/**
+ * Set the HRD delivery status of an entry
+ * Not recorded in the edit history
+ */
+export const setLogDeliveryStatus = async (
+  id: string,
+  deliveryStatus: DeliveryStatus
+): Promise<boolean> => {
+  try {
+    const existing = await getLogRecord(id);
+    if (!existing) {
+      return false;
+    }
+    await putLogRecord({ ...existing, deliveryStatus });
+    notifyLogChanges();
+    return true;
+  } catch (error) {
+    console.error('Error updating delivery status:', error);
+    return false;
+  }
+};
+
+/**
+ * Get a single log entry, or null if it no longer exists
+ */
+export const getInternalLogEntry = async (id: string): Promise<InternalLogEntry | null> => {
+  try {
+    return await getLogRecord(id);
+  } catch (error) {
+    console.error('Error reading log entry:', error);
+    return null;
+  }
+};
+
 /**
  * Delete a specific log entry by ID
  */
 export const deleteLogEntry = async (id: string): Promise<boolean> => {
   try {
-    const logs = await getInternalLogs();
-    const filtered = logs.filter(log => log.id !== id);
-    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
-    return true;
+    const deleted = await deleteLogRecord(id);
+    notifyLogChanges();
+    return deleted;
   } catch (error) {
     console.error('Error deleting log entry:', error);
     return false;
@@ -94,7 +412,8 @@ export const deleteLogEntry = async (id: string): Promise<boolean> => {
  */
 export const clearInternalLogs = async (): Promise<boolean> => {
   try {
-    await AsyncStorage.removeItem(STORAGE_KEY);
+    await clearLogRecords();
+    notifyLogChanges();
     return true;
   } catch (error) {
     console.error('Error clearing internal logs:', error);
@@ -123,6 +442,7 @@ export const exportLogsAsCSV = async (): Promise<{ success: boolean; message: st
       'Their Callsign',
       'Park Reference',
       'Park Name',
+      'My Park Reference',
       'Frequency (kHz)',
       'Mode',
       'RST Sent',
@@ -130,6 +450,7 @@ export const exportLogsAsCSV = async (): Promise<{ success: boolean; message: st
       'Comment',
       'Location',
       'Saved Reason',
+      'Delivery Status',
     ].join(',');
 
     const rows = logs.map(log => {
@@ -148,6 +469,7 @@ export const exportLogsAsCSV = async (): Promise<{ success: boolean; message: st
         formatCSVField(log.callsign),
         formatCSVField(log.parkReference),
         formatCSVField(log.parkName),
+        formatCSVField(log.myParkReference),
         formatCSVField(log.frequency),
         formatCSVField(log.mode),
         formatCSVField(log.rstSent),
@@ -155,6 +477,7 @@ export const exportLogsAsCSV = async (): Promise<{ success: boolean; message: st
         formatCSVField(log.comment),
         formatCSVField(log.locationDesc),
         formatCSVField(log.savedReason),
+        formatCSVField(getDeliveryStatus(log)),
       ].join(',');
     });
 
@@ -195,6 +518,48 @@ export const exportLogsAsCSV = async (): Promise<{ success: boolean; message: st
   }
 };
 
+/**
+ * Convert a log entry to ADIF records
+ * Park-to-park contacts with n-fers on either side get one record per park pair,
+ * since SIG_INFO and MY_SIG_INFO hold a single reference
+ */
+const logToADIFRecords = (log: InternalLogEntry): ADIFRecord[] => {
+  const { qsoDate, timeOn } = formatADIFDateTime(log.timestamp);
+  const band = getBand(log.frequency);
+
+  const base: ADIFRecord = {
+    QSO_DATE: qsoDate,
+    TIME_ON: timeOn,
+    CALL: log.callsign,
+    // Convert frequency from kHz to MHz for ADIF
+    FREQ: (parseFloat(log.frequency) / 1000).toFixed(6),
+    ...(band && { BAND: band }),
+    MODE: log.mode,
+    RST_SENT: log.rstSent,
+    RST_RCVD: log.rstReceived,
+    ...(log.myCallsign && { STATION_CALLSIGN: log.myCallsign }),
+    ...(log.gridSquare && { GRIDSQUARE: log.gridSquare }),
+    ...(log.myGridSquare && { MY_GRIDSQUARE: log.myGridSquare }),
+  };
+
+  const theirParks = parseParkReferences(log.parkReference || '');
+  const myParks = parseParkReferences(log.myParkReference || '');
+
+  const records: ADIFRecord[] = [];
+  (theirParks.length > 0 ? theirParks : ['']).forEach(theirPark => {
+    (myParks.length > 0 ? myParks : ['']).forEach(myPark => {
+      records.push({
+        ...base,
+        // POTA-specific fields
+        ...(theirPark && { SIG: 'POTA', SIG_INFO: theirPark }),
+        ...(myPark && { MY_SIG: 'POTA', MY_SIG_INFO: myPark }),
+        ...(log.comment && { COMMENT: log.comment }),
+      });
+    });
+  });
+  return records;
+};
+
 /**
  * Export logs as ADIF file (Amateur Data Interchange Format)
  * Standard format for ham radio logging
@@ -210,75 +575,7 @@ export const exportLogsAsADIF = async (): Promise<{ success: boolean; message: s
       };
     }
 
-    // Build ADIF content
-    const header = `ADIF Export from POTA Hunter
-<ADIF_VER:5>3.1.4
-<PROGRAMID:11>POTA Hunter
-<PROGRAMVERSION:5>1.0.0
-<EOH>
-
-`;
-
-    const adifRecords = logs.map(log => {
-      // Parse timestamp
-      const date = new Date(log.timestamp);
-      const qsoDate = date.toISOString().split('T')[0].replace(/-/g, ''); // YYYYMMDD
-      const qsoTime = date.toISOString().split('T')[1].split('.')[0].replace(/:/g, ''); // HHMMSS
-
-      // Convert frequency from kHz to MHz for ADIF
-      const freqMHz = (parseFloat(log.frequency) / 1000).toFixed(6);
-
-      // Determine band from frequency
-      const getBandFromFreq = (freqKHz: string): string => {
-        const freq = parseFloat(freqKHz);
-        if (freq >= 1800 && freq < 2000) return '160m';
-        if (freq >= 3500 && freq < 4000) return '80m';
-        if (freq >= 7000 && freq < 7300) return '40m';
-        if (freq >= 10100 && freq < 10150) return '30m';
-        if (freq >= 14000 && freq < 14350) return '20m';
-        if (freq >= 18068 && freq < 18168) return '17m';
-        if (freq >= 21000 && freq < 21450) return '15m';
-        if (freq >= 24890 && freq < 24990) return '12m';
-        if (freq >= 28000 && freq < 29700) return '10m';
-        if (freq >= 50000 && freq < 54000) return '6m';
-        if (freq >= 144000 && freq < 148000) return '2m';
-        return '';
-      };
-
-      const band = getBandFromFreq(log.frequency);
-
-      let record = '';
-      record += `<QSO_DATE:8>${qsoDate} `;
-      record += `<TIME_ON:6>${qsoTime} `;
-      record += `<CALL:${log.callsign.length}>${log.callsign} `;
-      record += `<FREQ:${freqMHz.length}>${freqMHz} `;
-      if (band) {
-        record += `<BAND:${band.length}>${band} `;
-      }
-      record += `<MODE:${log.mode.length}>${log.mode} `;
-      record += `<RST_SENT:${log.rstSent.length}>${log.rstSent} `;
-      record += `<RST_RCVD:${log.rstReceived.length}>${log.rstReceived} `;
-
-      if (log.myCallsign) {
-        record += `<STATION_CALLSIGN:${log.myCallsign.length}>${log.myCallsign} `;
-      }
-
-      // POTA-specific fields
-      if (log.parkReference) {
-        record += `<SIG:4>POTA `;
-        record += `<SIG_INFO:${log.parkReference.length}>${log.parkReference} `;
-      }
-
-      // Comment
-      if (log.comment) {
-        record += `<COMMENT:${log.comment.length}>${log.comment} `;
-      }
-
-      record += '<EOR>\n';
-      return record;
-    });
-
-    const adif = header + adifRecords.join('\n');
+    const adif = buildADIF(logs.flatMap(logToADIFRecords));
 
     // Save to file
     const fileName = `pota_logs_${new Date().toISOString().split('T')[0]}.adi`;
@@ -314,10 +611,164 @@ export const exportLogsAsADIF = async (): Promise<{ success: boolean; message: s
   }
 };
 
+// Key used to detect duplicate QSOs when importing (same station, park, band, mode and minute)
+const getImportKey = (
+  entry: Pick<InternalLogEntry, 'callsign' | 'parkReference' | 'frequency' | 'mode' | 'timestamp'>
+): string =>
+  [
+    getBaseCallsign(entry.callsign),
+    normalizeParkReference(entry.parkReference),
+    getBand(entry.frequency),
+    getModeCategory(entry.mode),
+    entry.timestamp.slice(0, 16),
+  ].join('|');
+
+/**
+ * Convert an ADIF record to internal log entries
+ * Multi-park SIG_INFO lists produce one entry per park
+ * Returns null if the record is missing required fields
+ */
+const adifRecordToLogEntries = (record: ADIFRecord): InternalLogEntry[] | null => {
+  const callsign = (record.CALL || '').trim().toUpperCase();
+  const timestamp = parseADIFDateTime(record.QSO_DATE, record.TIME_ON);
+  const frequency = adifFrequencyToKHz(record.FREQ);
+  const mode = getADIFMode(record);
+
+  if (!callsign || !timestamp || !frequency || !mode) {
+    return null;
+  }
+
+  // POTA references come from SIG_INFO (when SIG is POTA) or the ADIF 3.1.4 POTA_REF field
+  const sig = (record.SIG || '').trim().toUpperCase();
+  const parkField = record.POTA_REF || (sig === 'POTA' || !sig ? record.SIG_INFO : '') || '';
+  const parks = parseParkReferences(parkField);
+
+  const mySig = (record.MY_SIG || '').trim().toUpperCase();
+  const myParks = parseParkReferences(
+    record.MY_POTA_REF || (mySig === 'POTA' ? record.MY_SIG_INFO : '') || ''
+  );
+
+  const myCallsign = (record.STATION_CALLSIGN || record.OPERATOR || '').trim().toUpperCase();
+  const gridSquare = normalizeGrid(record.GRIDSQUARE || '');
+  const myGridSquare = normalizeGrid(record.MY_GRIDSQUARE || '');
+
+  return (parks.length > 0 ? parks : ['']).map(parkReference => ({
+    id: createLogId(),
+    timestamp,
+    callsign,
+    parkReference,
+    frequency,
+    mode,
+    rstSent: (record.RST_SENT || '').trim(),
+    rstReceived: (record.RST_RCVD || '').trim(),
+    comment: record.COMMENT?.trim() || undefined,
+    myCallsign: myCallsign || undefined,
+    myParkReference: myParks.length > 0 ? myParks.join(',') : undefined,
+    gridSquare: isValidGrid(gridSquare) ? gridSquare : undefined,
+    myGridSquare: isValidGrid(myGridSquare) ? myGridSquare : undefined,
+    savedReason: 'imported',
+    deliveryStatus: 'local-only',
+  }));
+};
+
+/**
+ * Import QSOs from ADIF text into the internal log
+ * Duplicates of existing entries (or of earlier records in the file) are skipped
+ */
+export const importADIFText = async (text: string): Promise<ADIFImportResult> => {
+  try {
+    const records = parseADIF(text);
+    const existing = await getInternalLogs();
+    const seen = new Set(existing.map(getImportKey));
+
+    const newEntries: InternalLogEntry[] = [];
+    let imported = 0;
+    let skipped = 0;
+    let malformed = 0;
+
+    records.forEach(record => {
+      const entries = adifRecordToLogEntries(record);
+      if (!entries) {
+        malformed++;
+        return;
+      }
+
+      const added = entries.filter(entry => {
+        const key = getImportKey(entry);
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+
+      if (added.length > 0) {
+        newEntries.push(...added);
+        imported++;
+      } else {
+        skipped++;
+      }
+    });
+
+    if (newEntries.length > 0) {
+      await putLogRecords(newEntries);
+      notifyLogChanges();
+    }
+
+    return {
+      success: true,
+      message: `Imported ${imported} QSOs, skipped ${skipped} duplicates, ${malformed} malformed records`,
+      imported,
+      skipped,
+      malformed,
+    };
+  } catch (error) {
+    console.error('Error importing ADIF:', error);
+    return {
+      success: false,
+      message: `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      imported: 0,
+      skipped: 0,
+      malformed: 0,
+    };
+  }
+};
+
+/**
+ * Pick an ADIF (.adi) file and import it into the internal log
+ * Returns null if the user cancels the picker
+ */
+export const importLogsFromADIF = async (): Promise<ADIFImportResult | null> => {
+  try {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: '*/*',
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+
+    const text = await FileSystem.readAsStringAsync(result.assets[0].uri, {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+
+    return importADIFText(text);
+  } catch (error) {
+    console.error('Error reading ADIF file:', error);
+    return {
+      success: false,
+      message: `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      imported: 0,
+      skipped: 0,
+      malformed: 0,
+    };
+  }
+};
+
 /**
  * Get count of internal logs
  */
 export const getLogCount = async (): Promise<number> => {
-  const logs = await getInternalLogs();
-  return logs.length;
+  return countLogRecords();
 };
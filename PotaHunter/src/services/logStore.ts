@@ -0,0 +1,449 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getBaseCallsign, parseParkReferences } from '../types/spot';
+import type { InternalLogEntry } from './internalLogService';
+
+/**
+ * Indexed storage for internal log entries
+ *
+ * Each entry is stored under its own key, so saving or deleting one QSO
+ * doesn't rewrite the whole log. Small index keys keep the entry order
+ * (newest first, one key per UTC month) and the IDs for each park,
+ * callsign and UTC date.
+ */
+
+// Pre-indexed storage: the whole log as one JSON array
+const LEGACY_STORAGE_KEY = '@pota_hunter:internal_logs';
+
+const RECORD_PREFIX = '@pota_hunter:log:';
+const INDEX_PREFIX = '@pota_hunter:log_index:';
+const ORDER_INDEX_PREFIX = `${INDEX_PREFIX}order:`;
+const ORDER_MONTHS_KEY = `${INDEX_PREFIX}order_months`;
+const PARK_INDEX_PREFIX = `${INDEX_PREFIX}park:`;
+const CALLSIGN_INDEX_PREFIX = `${INDEX_PREFIX}call:`;
+const DATE_INDEX_PREFIX = `${INDEX_PREFIX}date:`;
+const STORE_VERSION_KEY = '@pota_hunter:log_store_version';
+const STORE_VERSION = '1';
+
+// Entry order index item (kept sorted newest first)
+interface OrderIndexItem {
+  id: string;
+  timestamp: string;
+}
+
+export interface LogQuery {
+  parkReference?: string;
+  callsign?: string;  // Portable prefixes/suffixes are ignored
+  date?: string;      // UTC date, YYYY-MM-DD
+  offset?: number;
+  limit?: number;     // Omit for all matching entries
+}
+
+export interface LogQueryResult {
+  entries: InternalLogEntry[];
+  total: number;      // Matching entries before paging
+}
+
+const recordKey = (id: string) => `${RECORD_PREFIX}${id}`;
+const orderKey = (month: string) => `${ORDER_INDEX_PREFIX}${month}`;
+
+// Order index bucket for a timestamp (UTC month, YYYY-MM)
+const getOrderMonth = (timestamp: string) => timestamp.slice(0, 7);
+
+const sortNewestFirst = <T extends OrderIndexItem>(items: T[]): T[] =>
+  items.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+// Index keys an entry belongs to (one per park, plus callsign and date)
+const getBucketKeys = (entry: InternalLogEntry): string[] => {
+  const keys = parseParkReferences(entry.parkReference || '').map(
+    ref => `${PARK_INDEX_PREFIX}${ref}`
+  );
+  const callsign = getBaseCallsign(entry.callsign);
+  if (callsign) {
+    keys.push(`${CALLSIGN_INDEX_PREFIX}${callsign}`);
+  }
+  keys.push(`${DATE_INDEX_PREFIX}${entry.timestamp.slice(0, 10)}`);
+  return keys;
+};
+
+// Serialize writes so concurrent saves can't overwrite each other's index updates
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const withWriteLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = writeQueue.then(task, task);
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+const readJSON = async <T>(key: string, fallback: T): Promise<T> => {
+  const data = await AsyncStorage.getItem(key);
+  return data ? (JSON.parse(data) as T) : fallback;
+};
+
+// Whole entry order, newest first (months are kept newest first too)
+const readOrderIndex = async (): Promise<OrderIndexItem[]> => {
+  const months = await readJSON<string[]>(ORDER_MONTHS_KEY, []);
+  if (months.length === 0) {
+    return [];
+  }
+  const pairs = await AsyncStorage.multiGet(months.map(orderKey));
+  return pairs.flatMap(([, value]) => (value ? (JSON.parse(value) as OrderIndexItem[]) : []));
+};
+
+/**
+ * Work out the order index keys to write and delete for added and removed entries
+ * Only the month buckets those entries fall in are read and rewritten
+ */
+const buildOrderIndexUpdate = async (
+  added: OrderIndexItem[],
+  removed: OrderIndexItem[]
+): Promise<{ writes: [string, string][]; deletes: string[] }> => {
+  const addedByMonth = new Map<string, OrderIndexItem[]>();
+  added.forEach(item => {
+    const month = getOrderMonth(item.timestamp);
+    addedByMonth.set(month, [...(addedByMonth.get(month) ?? []), item]);
+  });
+  const removedByMonth = new Map<string, Set<string>>();
+  removed.forEach(item => {
+    const month = getOrderMonth(item.timestamp);
+    removedByMonth.set(month, (removedByMonth.get(month) ?? new Set<string>()).add(item.id));
+  });
+
+  const affected = Array.from(new Set([...addedByMonth.keys(), ...removedByMonth.keys()]));
+  if (affected.length === 0) {
+    return { writes: [], deletes: [] };
+  }
+
+  const months = new Set(await readJSON<string[]>(ORDER_MONTHS_KEY, []));
+  const monthCount = months.size;
+  const bucketPairs = await AsyncStorage.multiGet(affected.map(orderKey));
+
+  const writes: [string, string][] = [];
+  const deletes: string[] = [];
+  bucketPairs.forEach(([, value], index) => {
+    const month = affected[index];
+    const monthAdded = addedByMonth.get(month) ?? [];
+    const dropIds = new Set([
+      ...(removedByMonth.get(month) ?? []),
+      ...monthAdded.map(item => item.id),
+    ]);
+    const items = sortNewestFirst([
+      ...(value ? (JSON.parse(value) as OrderIndexItem[]) : []).filter(item => !dropIds.has(item.id)),
+      ...monthAdded,
+    ]);
+
+    if (items.length > 0) {
+      writes.push([orderKey(month), JSON.stringify(items)]);
+      months.add(month);
+    } else {
+      deletes.push(orderKey(month));
+      months.delete(month);
+    }
+  });
+
+  // The month list only changes when a month gains its first or loses its last entry
+  const monthsChanged = months.size !== monthCount || affected.some(month => !months.has(month));
+  if (monthsChanged) {
+    writes.push([ORDER_MONTHS_KEY, JSON.stringify(Array.from(months).sort().reverse())]);
+  }
+
+  return { writes, deletes };
+};
+
+const readRecords = async (ids: string[]): Promise<InternalLogEntry[]> => {
+  if (ids.length === 0) {
+    return [];
+  }
+  const pairs = await AsyncStorage.multiGet(ids.map(recordKey));
+  return pairs
+    .map(([, value]) => (value ? (JSON.parse(value) as InternalLogEntry) : null))
+    .filter((entry): entry is InternalLogEntry => entry !== null);
+};
+
+/**
+ * Write entries and update all indexes in one batch
+ * `previous` holds the stored version of entries being replaced (for index cleanup)
+ */
+const writeEntries = async (
+  entries: InternalLogEntry[],
+  previous: InternalLogEntry[] = []
+): Promise<void> => {
+  const toOrderItem = (entry: InternalLogEntry): OrderIndexItem => ({
+    id: entry.id,
+    timestamp: entry.timestamp,
+  });
+  const orderUpdate = await buildOrderIndexUpdate(
+    entries.map(toOrderItem),
+    previous.map(toOrderItem)
+  );
+
+  // Work out bucket changes
+  const additions = new Map<string, Set<string>>();
+  const removals = new Map<string, Set<string>>();
+  const addTo = (map: Map<string, Set<string>>, key: string, id: string) => {
+    const ids = map.get(key) ?? new Set<string>();
+    ids.add(id);
+    map.set(key, ids);
+  };
+
+  previous.forEach(entry => getBucketKeys(entry).forEach(key => addTo(removals, key, entry.id)));
+  entries.forEach(entry => getBucketKeys(entry).forEach(key => addTo(additions, key, entry.id)));
+
+  const bucketKeys = Array.from(new Set([...additions.keys(), ...removals.keys()]));
+  const bucketPairs = bucketKeys.length > 0 ? await AsyncStorage.multiGet(bucketKeys) : [];
+
+  const bucketWrites: [string, string][] = [];
+  const bucketDeletes: string[] = [];
+  bucketPairs.forEach(([key, value]) => {
+    const ids = new Set<string>(value ? JSON.parse(value) : []);
+    removals.get(key)?.forEach(id => ids.delete(id));
+    additions.get(key)?.forEach(id => ids.add(id));
+    if (ids.size > 0) {
+      bucketWrites.push([key, JSON.stringify(Array.from(ids))]);
+    } else {
+      bucketDeletes.push(key);
+    }
+  });
+
+  await AsyncStorage.multiSet([
+    ...entries.map(entry => [recordKey(entry.id), JSON.stringify(entry)] as [string, string]),
+    ...bucketWrites,
+    ...orderUpdate.writes,
+  ]);
+  const deletes = [...bucketDeletes, ...orderUpdate.deletes];
+  if (deletes.length > 0) {
+    await AsyncStorage.multiRemove(deletes);
+  }
+};
+
+/**
+ * Move entries from the legacy single-array key into the indexed store
+ * The legacy key is only removed after every entry has been read back and matched
+ */
+const migrateLegacyLogs = async (): Promise<void> => {
+  const version = await AsyncStorage.getItem(STORE_VERSION_KEY);
+  if (version === STORE_VERSION) {
+    return;
+  }
+
+  const legacy = await readJSON<InternalLogEntry[]>(LEGACY_STORAGE_KEY, []);
+  if (legacy.length > 0) {
+    // Skip any repeated IDs so each entry maps to exactly one record
+    const unique = Array.from(new Map(legacy.map(entry => [entry.id, entry])).values());
+    // Records left by an earlier, interrupted attempt are replaced rather than duplicated
+    const existing = await readRecords(unique.map(entry => entry.id));
+    await writeEntries(unique, existing);
+
+    // Verify before dropping the legacy data
+    const order = await readOrderIndex();
+    const indexedIds = new Set(order.map(item => item.id));
+    const stored = await readRecords(unique.map(entry => entry.id));
+    const storedById = new Map(stored.map(entry => [entry.id, entry]));
+
+    const mismatched = unique.filter(entry =>
+      !indexedIds.has(entry.id) ||
+      JSON.stringify(storedById.get(entry.id)) !== JSON.stringify(entry)
+    );
+    if (mismatched.length > 0) {
+      throw new Error(`Log migration verification failed for ${mismatched.length} entries`);
+    }
+
+    console.log(`[LogStore] Migrated ${unique.length} log entries to indexed storage`);
+  }
+
+  await AsyncStorage.setItem(STORE_VERSION_KEY, STORE_VERSION);
+  await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+let migration: Promise<void> | null = null;
+
+/**
+ * Run the one-time migration before the first store operation
+ * A failed migration leaves the legacy data in place and is retried on the
+ * next operation. Until then writes fail with the migration error rather than
+ * landing in a half-built store, and reads come from the unmigrated data.
+ */
+const ensureMigrated = (): Promise<void> => {
+  if (!migration) {
+    migration = withWriteLock(migrateLegacyLogs).catch(error => {
+      console.error('Error migrating internal logs:', error);
+      migration = null;
+      throw error;
+    });
+  }
+  return migration;
+};
+
+/**
+ * Save (insert or replace) a single entry
+ */
+export const putLogRecord = async (entry: InternalLogEntry): Promise<void> => {
+  await ensureMigrated();
+  await withWriteLock(async () => {
+    const [existing] = await readRecords([entry.id]);
+    await writeEntries([entry], existing ? [existing] : []);
+  });
+};
+
+/**
+ * Save (insert or replace) many entries in one batch
+ */
+export const putLogRecords = async (entries: InternalLogEntry[]): Promise<void> => {
+  if (entries.length === 0) {
+    return;
+  }
+  await ensureMigrated();
+  await withWriteLock(async () => {
+    const existing = await readRecords(entries.map(entry => entry.id));
+    await writeEntries(entries, existing);
+  });
+};
+
+/**
+ * Get a single entry by ID
+ */
+export const getLogRecord = async (id: string): Promise<InternalLogEntry | null> => {
+  try {
+    await ensureMigrated();
+  } catch {
+    const { entries } = await queryPendingMigration({});
+    return entries.find(entry => entry.id === id) ?? null;
+  }
+  const [entry] = await readRecords([id]);
+  return entry ?? null;
+};
+
+/**
+ * Delete a single entry by ID
+ * Returns false if the entry doesn't exist
+ */
+export const deleteLogRecord = async (id: string): Promise<boolean> => {
+  await ensureMigrated();
+  return withWriteLock(async () => {
+    const [existing] = await readRecords([id]);
+    if (!existing) {
+      return false;
+    }
+
+    const orderUpdate = await buildOrderIndexUpdate(
+      [],
+      [{ id: existing.id, timestamp: existing.timestamp }]
+    );
+    const bucketKeys = getBucketKeys(existing);
+    const bucketPairs = await AsyncStorage.multiGet(bucketKeys);
+
+    const bucketWrites: [string, string][] = [];
+    const bucketDeletes: string[] = [];
+    bucketPairs.forEach(([key, value]) => {
+      const ids = (value ? (JSON.parse(value) as string[]) : []).filter(other => other !== id);
+      if (ids.length > 0) {
+        bucketWrites.push([key, JSON.stringify(ids)]);
+      } else {
+        bucketDeletes.push(key);
+      }
+    });
+
+    await AsyncStorage.multiSet([...bucketWrites, ...orderUpdate.writes]);
+    await AsyncStorage.multiRemove([recordKey(id), ...bucketDeletes, ...orderUpdate.deletes]);
+    return true;
+  });
+};
+
+/**
+ * Delete all entries and indexes
+ */
+export const clearLogRecords = async (): Promise<void> => {
+  await ensureMigrated();
+  await withWriteLock(async () => {
+    const keys = await AsyncStorage.getAllKeys();
+    const storeKeys = keys.filter(key => key.startsWith(RECORD_PREFIX) || key.startsWith(INDEX_PREFIX));
+    if (storeKeys.length > 0) {
+      await AsyncStorage.multiRemove(storeKeys);
+    }
+  });
+};
+
+const getPage = <T>(items: T[], query: LogQuery): T[] => {
+  const offset = query.offset ?? 0;
+  return query.limit !== undefined
+    ? items.slice(offset, offset + query.limit)
+    : items.slice(offset);
+};
+
+// Filter an entry order with the park, callsign and date indexes, then read one page
+const queryIndexed = async (query: LogQuery, order: OrderIndexItem[]): Promise<LogQueryResult> => {
+  const bucketKeys: string[] = [];
+  if (query.parkReference) {
+    const [park] = parseParkReferences(query.parkReference);
+    bucketKeys.push(`${PARK_INDEX_PREFIX}${park ?? ''}`);
+  }
+  if (query.callsign) {
+    bucketKeys.push(`${CALLSIGN_INDEX_PREFIX}${getBaseCallsign(query.callsign)}`);
+  }
+  if (query.date) {
+    bucketKeys.push(`${DATE_INDEX_PREFIX}${query.date}`);
+  }
+
+  let ids = order.map(item => item.id);
+  if (bucketKeys.length > 0) {
+    const bucketPairs = await AsyncStorage.multiGet(bucketKeys);
+    const buckets = bucketPairs.map(
+      ([, value]) => new Set<string>(value ? JSON.parse(value) : [])
+    );
+    ids = ids.filter(id => buckets.every(bucket => bucket.has(id)));
+  }
+
+  return {
+    entries: await readRecords(getPage(ids, query)),
+    total: ids.length,
+  };
+};
+
+/**
+ * Answer a query from the legacy single-array log while its migration is pending
+ */
+const queryPendingMigration = async (query: LogQuery): Promise<LogQueryResult> => {
+  const legacy = await readJSON<InternalLogEntry[]>(LEGACY_STORAGE_KEY, []);
+  const [park] = query.parkReference ? parseParkReferences(query.parkReference) : [];
+  const callsign = query.callsign ? getBaseCallsign(query.callsign) : '';
+  const matching = sortNewestFirst(
+    Array.from(new Map(legacy.map(entry => [entry.id, entry])).values())
+  ).filter(entry =>
+    (!query.parkReference || parseParkReferences(entry.parkReference || '').includes(park)) &&
+    (!callsign || getBaseCallsign(entry.callsign) === callsign) &&
+    (!query.date || entry.timestamp.slice(0, 10) === query.date)
+  );
+
+  return {
+    entries: getPage(matching, query),
+    total: matching.length,
+  };
+};
+
+/**
+ * Query entries, newest first
+ * Filters use the park, callsign and date indexes; results can be paged with offset/limit
+ */
+export const queryLogRecords = async (query: LogQuery = {}): Promise<LogQueryResult> => {
+  try {
+    await ensureMigrated();
+  } catch {
+    return queryPendingMigration(query);
+  }
+  return queryIndexed(query, await readOrderIndex());
+};
+
+/**
+ * Get all entries, newest first
+ */
+export const getAllLogRecords = async (): Promise<InternalLogEntry[]> => {
+  const { entries } = await queryLogRecords();
+  return entries;
+};
+
+/**
+ * Count stored entries
+ */
+export const countLogRecords = async (): Promise<number> => {
+  const { total } = await queryLogRecords({ limit: 0 });
+  return total;
+};
@@ -0,0 +1,148 @@
+/**
+ * Maidenhead grid locators
+ *
+ * A locator is built from pairs of characters, each pair subdividing
+ * the square before it:
+ * - Field (AA-RR): 20° longitude x 10° latitude
+ * - Square (00-99): 2° x 1°
+ * - Subsquare (aa-xx): 5' x 2.5'
+ * - Extended square (00-99): 30" x 15"
+ *
+ * Longitude comes first in each pair. Locators are written with upper case
+ * fields and lower case subsquares (e.g. FN42ab), but parsing ignores case.
+ */
+
+// Number of characters in a supported locator
+export type GridPrecision = 4 | 6 | 8;
+
+export interface GridLatLon {
+  latitude: number;
+  longitude: number;
+}
+
+// Edges of a grid square in degrees
+export interface GridBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+const GRID_PATTERN = /^[A-R]{2}\d{2}([A-X]{2}(\d{2})?)?$/i;
+
+// Size in degrees (longitude, latitude) of each character pair, and how many divisions it has
+const PAIRS = [
+  { lonSize: 20, latSize: 10, divisions: 18 },                  // Field
+  { lonSize: 2, latSize: 1, divisions: 10 },                    // Square
+  { lonSize: 2 / 24, latSize: 1 / 24, divisions: 24 },          // Subsquare
+  { lonSize: 2 / 240, latSize: 1 / 240, divisions: 10 },        // Extended square
+];
+
+// Letter pairs (field, subsquare) use A-X; digit pairs (square, extended) use 0-9
+const isLetterPair = (pairIndex: number) => pairIndex % 2 === 0;
+
+/**
+ * Check that a grid is a valid 4, 6 or 8 character locator
+ */
+export const isValidGrid = (grid: string): boolean => GRID_PATTERN.test(grid.trim());
+
+/**
+ * Normalize a locator's case (e.g. "fn42AB" -> "FN42ab")
+ * Invalid input is returned trimmed and upper-cased
+ */
+export const normalizeGrid = (grid: string): string => {
+  const locator = grid.trim();
+  if (!isValidGrid(locator)) {
+    return locator.toUpperCase();
+  }
+  return locator.slice(0, 4).toUpperCase() + locator.slice(4).toLowerCase();
+};
+
+// Just inside the far edge of the grid, so 180°E and 90°N still map to a square
+const EDGE_EPSILON = 1e-9;
+
+/**
+ * Convert a position to a grid locator
+ * Latitude is clamped to the poles, and 180°E stays in the easternmost
+ * field rather than wrapping to 180°W. Other longitudes wrap (190° = -170°).
+ * Returns an empty string if either coordinate is not a finite number.
+ */
+export const latLonToGrid = (
+  latitude: number,
+  longitude: number,
+  precision: GridPrecision = 6
+): string => {
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return '';
+  }
+
+  // Shift to 0-360 longitude / 0-180 latitude from the south-west corner of field AA
+  let lon = longitude === 180
+    ? 360 - EDGE_EPSILON
+    : ((((longitude + 180) % 360) + 360) % 360);
+  let lat = Math.min(Math.max(latitude + 90, 0), 180 - EDGE_EPSILON);
+
+  let grid = '';
+  for (let i = 0; i < precision / 2; i++) {
+    const { lonSize, latSize, divisions } = PAIRS[i];
+    const lonIndex = Math.min(Math.floor(lon / lonSize), divisions - 1);
+    const latIndex = Math.min(Math.floor(lat / latSize), divisions - 1);
+    lon -= lonIndex * lonSize;
+    lat -= latIndex * latSize;
+
+    if (isLetterPair(i)) {
+      const base = i === 0 ? 65 : 97;  // 'A' for the field, 'a' for the subsquare
+      grid += String.fromCharCode(base + lonIndex) + String.fromCharCode(base + latIndex);
+    } else {
+      grid += `${lonIndex}${latIndex}`;
+    }
+  }
+  return grid;
+};
+
+/**
+ * Edges of a grid square
+ * Returns null for an invalid locator
+ */
+export const getGridBounds = (grid: string): GridBounds | null => {
+  const locator = grid.trim().toUpperCase();
+  if (!isValidGrid(locator)) {
+    return null;
+  }
+
+  let west = -180;
+  let south = -90;
+  const pairCount = locator.length / 2;
+  for (let i = 0; i < pairCount; i++) {
+    const { lonSize, latSize } = PAIRS[i];
+    const lonChar = locator[i * 2];
+    const latChar = locator[i * 2 + 1];
+    const lonIndex = isLetterPair(i) ? lonChar.charCodeAt(0) - 65 : parseInt(lonChar, 10);
+    const latIndex = isLetterPair(i) ? latChar.charCodeAt(0) - 65 : parseInt(latChar, 10);
+    west += lonIndex * lonSize;
+    south += latIndex * latSize;
+  }
+
+  const { lonSize, latSize } = PAIRS[pairCount - 1];
+  return {
+    south,
+    west,
+    north: south + latSize,
+    east: west + lonSize,
+  };
+};
+
+/**
+ * Center of a grid square
+ * Returns null for an invalid locator
+ */
+export const getGridCenter = (grid: string): GridLatLon | null => {
+  const bounds = getGridBounds(grid);
+  if (!bounds) {
+    return null;
+  }
+  return {
+    latitude: (bounds.south + bounds.north) / 2,
+    longitude: (bounds.west + bounds.east) / 2,
+  };
+};
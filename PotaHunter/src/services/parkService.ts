@@ -0,0 +1,127 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { normalizeParkReference } from '../types/spot';
+
+/**
+ * Park metadata from the POTA park endpoints
+ *
+ * Responses are cached per park so repeat views work offline.
+ * A cached park is refreshed once it is older than the expiry, but
+ * an expired copy is still returned if the refresh fails.
+ */
+
+const POTA_API_BASE = 'https://api.pota.app';
+const CACHE_KEY_PREFIX = '@pota_hunter:park_cache:';
+
+// How long cached park data is considered fresh
+export const PARK_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Number of recent activations to fetch
+const RECENT_ACTIVATIONS_COUNT = 10;
+
+// Park metadata (subset of the POTA /park/{reference} response)
+export interface ParkInfo {
+  reference: string;
+  name: string;
+  parktypeDesc: string | null;
+  locationDesc: string | null;  // e.g. "US-ME", comma-separated for multi-state parks
+  locationName: string | null;  // e.g. "Maine"
+  entityName: string | null;    // DXCC entity
+  grid4: string | null;
+  grid6: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  website: string | null;
+}
+
+// A recent activation (from the POTA /park/activations/{reference} response)
+export interface ParkActivation {
+  activeCallsign: string;
+  qso_date: string;  // YYYYMMDD
+  totalQSOs: number;
+  qsosCW: number;
+  qsosDATA: number;
+  qsosPHONE: number;
+}
+
+export interface ParkDetails {
+  park: ParkInfo;
+  recentActivations: ParkActivation[];
+  fetchedAt: number;  // Epoch ms
+}
+
+export interface ParkDetailsResult {
+  details: ParkDetails | null;
+  fromCache: boolean;
+  stale: boolean;      // Cached data older than the expiry (refresh failed)
+  error?: string;
+}
+
+const cacheKey = (reference: string) => `${CACHE_KEY_PREFIX}${reference}`;
+
+const readCache = async (reference: string): Promise<ParkDetails | null> => {
+  try {
+    const data = await AsyncStorage.getItem(cacheKey(reference));
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error('Error reading park cache:', error);
+    return null;
+  }
+};
+
+const fetchJSON = async <T>(path: string): Promise<T> => {
+  const response = await fetch(`${POTA_API_BASE}${path}`);
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+  return response.json();
+};
+
+const fetchParkDetails = async (reference: string): Promise<ParkDetails> => {
+  const [park, recentActivations] = await Promise.all([
+    fetchJSON<ParkInfo | null>(`/park/${encodeURIComponent(reference)}`),
+    fetchJSON<ParkActivation[] | null>(
+      `/park/activations/${encodeURIComponent(reference)}?count=${RECENT_ACTIVATIONS_COUNT}`
+    ),
+  ]);
+
+  // Unknown references come back as an empty body rather than a 404
+  if (!park || !park.reference) {
+    throw new Error(`Park ${reference} not found`);
+  }
+
+  return {
+    park,
+    recentActivations: recentActivations ?? [],
+    fetchedAt: Date.now(),
+  };
+};
+
+/**
+ * Get details for a park, from the cache while it is fresh
+ * Set forceRefresh to skip a fresh cache (e.g. pull to refresh)
+ */
+export const getParkDetails = async (
+  reference: string,
+  forceRefresh: boolean = false
+): Promise<ParkDetailsResult> => {
+  const ref = normalizeParkReference(reference);
+  const cached = await readCache(ref);
+  const isFresh = cached !== null && Date.now() - cached.fetchedAt < PARK_CACHE_TTL_MS;
+
+  if (cached && isFresh && !forceRefresh) {
+    return { details: cached, fromCache: true, stale: false };
+  }
+
+  try {
+    const details = await fetchParkDetails(ref);
+    await AsyncStorage.setItem(cacheKey(ref), JSON.stringify(details));
+    return { details, fromCache: false, stale: false };
+  } catch (error) {
+    console.error(`Error fetching park ${ref}:`, error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (cached) {
+      return { details: cached, fromCache: true, stale: !isFresh, error: message };
+    }
+    return { details: null, fromCache: false, stale: false, error: message };
+  }
+};
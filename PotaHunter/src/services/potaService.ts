@@ -17,9 +17,26 @@ export interface SpotSubmission {
   comments: string;       // Spot comment
 }
 
+// Values available to re-spot comment templates, e.g. "tnx {park} 59 from {grid}"
+export interface SpotTemplateValues {
+  park: string;
+  call: string;
+  freq: string;
+  mode: string;
+  mycall: string;
+  grid: string;
+}
+
+export const DEFAULT_RESPOT_TEMPLATES = [
+  'tnx {park} 59 from {grid}',
+  'QRV {mode} {freq}',
+  'tnx QSO 73',
+];
+
 export interface SpotResponse {
   success: boolean;
   message: string;
+  networkError?: boolean;  // The request never reached the API
 }
 
 /**
@@ -72,6 +89,7 @@ export const submitSpot = async (spot: SpotSubmission): Promise<SpotResponse> =>
     return {
       success: false,
       message: `Network error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      networkError: true,
     };
   }
 };
@@ -97,3 +115,16 @@ export const reSpotActivator = async (
     comments: comment,
   });
 };
+
+/**
+ * Fill a re-spot comment template
+ * Unknown placeholders are left as-is; empty values collapse the extra whitespace
+ */
+export const fillSpotTemplate = (template: string, values: SpotTemplateValues): string =>
+  template
+    .replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const key = name.toLowerCase() as keyof SpotTemplateValues;
+      return key in values ? values[key] : placeholder;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
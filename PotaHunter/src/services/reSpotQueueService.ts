@@ -0,0 +1,244 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { getBaseCallsign } from '../types/spot';
+import { SpotResponse, SpotSubmission, submitSpot } from './potaService';
+
+/**
+ * Re-spot delivery with rate limiting and an offline queue
+ *
+ * - Each activator can only be re-spotted once per cooldown period, so
+ *   several of us hunting the same station don't flood the spot feed
+ * - Re-spots made without connectivity are queued and sent when the
+ *   network returns; queued re-spots older than the stale limit are dropped
+ */
+
+const QUEUE_STORAGE_KEY = '@pota_hunter:respot_queue';
+const HISTORY_STORAGE_KEY = '@pota_hunter:respot_history';
+
+// Minimum time between re-spots of the same activator
+export const RESPOT_COOLDOWN_MS = 5 * 60 * 1000;
+
+// Queued re-spots older than this are no longer useful and are dropped
+export const RESPOT_STALE_MS = 10 * 60 * 1000;
+
+export interface QueuedReSpot {
+  id: string;
+  submission: SpotSubmission;
+  queuedAt: number;  // Epoch ms
+}
+
+export interface ReSpotResult extends SpotResponse {
+  queued?: boolean;             // Saved for sending when back online
+  cooldownRemainingMs?: number; // Set when blocked by the cooldown
+}
+
+// Last re-spot time (epoch ms) by base activator callsign
+type ReSpotHistory = Record<string, number>;
+
+type QueueListener = (queue: QueuedReSpot[]) => void;
+
+const listeners = new Set<QueueListener>();
+
+// Only one flush at a time
+let flushing: Promise<void> | null = null;
+
+const readQueue = async (): Promise<QueuedReSpot[]> => {
+  const data = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+  return data ? JSON.parse(data) : [];
+};
+
+const writeQueue = async (queue: QueuedReSpot[]): Promise<void> => {
+  await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+  listeners.forEach(listener => listener(queue));
+};
+
+const readHistory = async (): Promise<ReSpotHistory> => {
+  const data = await AsyncStorage.getItem(HISTORY_STORAGE_KEY);
+  return data ? JSON.parse(data) : {};
+};
+
+/**
+ * Record a re-spot time for the cooldown
+ * Entries older than the cooldown are pruned on each write
+ */
+const recordReSpot = async (activator: string, time: number): Promise<void> => {
+  const history = await readHistory();
+  const now = Date.now();
+  const pruned: ReSpotHistory = {};
+  Object.entries(history).forEach(([call, last]) => {
+    if (now - last < RESPOT_COOLDOWN_MS) {
+      pruned[call] = last;
+    }
+  });
+  pruned[getBaseCallsign(activator)] = time;
+  await AsyncStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(pruned));
+};
+
+/**
+ * Get the remaining cooldown for an activator (0 if they can be re-spotted)
+ */
+export const getReSpotCooldown = async (activator: string): Promise<number> => {
+  try {
+    const history = await readHistory();
+    const last = history[getBaseCallsign(activator)];
+    if (!last) {
+      return 0;
+    }
+    return Math.max(0, last + RESPOT_COOLDOWN_MS - Date.now());
+  } catch (error) {
+    console.error('Error reading re-spot history:', error);
+    return 0;
+  }
+};
+
+const enqueueReSpot = async (submission: SpotSubmission): Promise<void> => {
+  const queue = await readQueue();
+  queue.push({
+    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    submission,
+    queuedAt: Date.now(),
+  });
+  await writeQueue(queue);
+};
+
+const isOnline = async (): Promise<boolean> => {
+  const state = await NetInfo.fetch();
+  // isInternetReachable is null while unknown; only treat an explicit false as offline
+  return state.isConnected !== false && state.isInternetReachable !== false;
+};
+
+/**
+ * Re-spot an activator, respecting the cooldown
+ * Queues the spot instead of failing when there is no connectivity
+ */
+export const sendReSpot = async (submission: SpotSubmission): Promise<ReSpotResult> => {
+  try {
+    const cooldown = await getReSpotCooldown(submission.activator);
+    if (cooldown > 0) {
+      const minutes = Math.ceil(cooldown / 60000);
+      return {
+        success: false,
+        message: `${submission.activator} was re-spotted recently. Try again in ${minutes} min.`,
+        cooldownRemainingMs: cooldown,
+      };
+    }
+
+    if (!(await isOnline())) {
+      await enqueueReSpot(submission);
+      await recordReSpot(submission.activator, Date.now());
+      return {
+        success: true,
+        message: `Offline: re-spot of ${submission.activator} queued and will be sent when the network returns`,
+        queued: true,
+      };
+    }
+
+    const response = await submitSpot(submission);
+    if (response.success) {
+      await recordReSpot(submission.activator, Date.now());
+    } else if (response.networkError) {
+      await enqueueReSpot(submission);
+      await recordReSpot(submission.activator, Date.now());
+      return {
+        success: true,
+        message: `${response.message}\n\nRe-spot of ${submission.activator} queued and will be retried when the network returns`,
+        queued: true,
+      };
+    }
+    return response;
+  } catch (error) {
+    console.error('Error sending re-spot:', error);
+    return {
+      success: false,
+      message: `Re-spot error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+};
+
+const runFlush = async (): Promise<void> => {
+  const queue = await readQueue();
+  if (queue.length === 0) {
+    return;
+  }
+
+  const now = Date.now();
+  const sentOrDropped = new Set<string>();
+
+  for (const item of queue) {
+    if (now - item.queuedAt > RESPOT_STALE_MS) {
+      console.log(`[ReSpotQueue] Dropped stale re-spot of ${item.submission.activator}`);
+      sentOrDropped.add(item.id);
+      continue;
+    }
+
+    const response = await submitSpot(item.submission);
+    if (response.networkError) {
+      // Still offline - keep this and the rest for the next flush
+      break;
+    }
+    if (!response.success) {
+      console.error(`[ReSpotQueue] Dropped re-spot of ${item.submission.activator}: ${response.message}`);
+    }
+    sentOrDropped.add(item.id);
+  }
+
+  // Re-read so re-spots queued during this flush are kept
+  const current = await readQueue();
+  await writeQueue(current.filter(item => !sentOrDropped.has(item.id)));
+};
+
+/**
+ * Send queued re-spots, dropping stale ones
+ */
+export const flushReSpotQueue = (): Promise<void> => {
+  if (!flushing) {
+    flushing = runFlush()
+      .catch(error => {
+        console.error('Error flushing re-spot queue:', error);
+      })
+      .finally(() => {
+        flushing = null;
+      });
+  }
+  return flushing;
+};
+
+/**
+ * Get queued re-spots
+ */
+export const getQueuedReSpots = async (): Promise<QueuedReSpot[]> => {
+  try {
+    return await readQueue();
+  } catch (error) {
+    console.error('Error reading re-spot queue:', error);
+    return [];
+  }
+};
+
+/**
+ * Flush the queue whenever connectivity returns
+ * Returns an unsubscribe function
+ */
+export const startReSpotQueue = (): (() => void) => {
+  // NetInfo reports the current state on subscribe, so anything left
+  // queued from a previous session is sent as soon as we're online
+  let wasOnline = false;
+  return NetInfo.addEventListener(state => {
+    const online = state.isConnected !== false && state.isInternetReachable !== false;
+    if (online && !wasOnline) {
+      flushReSpotQueue();
+    }
+    wasOnline = online;
+  });
+};
+
+/**
+ * Subscribe to queue changes
+ * Returns an unsubscribe function
+ */
+export const subscribeToReSpotQueue = (listener: QueueListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
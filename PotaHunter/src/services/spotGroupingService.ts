@@ -0,0 +1,111 @@
+import { SpotWithUserData, getBaseCallsign } from '../types/spot';
+
+/**
+ * A frequency/mode the activator was spotted on, in time order
+ */
+export interface FrequencyChange {
+  frequency: string;
+  mode: string;
+  spotTime: string;
+}
+
+/**
+ * A spotter comment from one of the spots in an activation
+ */
+export interface SpotComment {
+  spotId: number;
+  spotter: string;
+  comments: string;
+  spotTime: string;
+}
+
+/**
+ * All spots for one activator at one park
+ */
+export interface ActivationGroup {
+  key: string;
+  activator: string;
+  reference: string;
+  latest: SpotWithUserData;           // Most recent spot (current frequency and mode)
+  spots: SpotWithUserData[];          // Newest first
+  count: number;                      // Times spotted (POTA keeps a running count per activation)
+  frequencyHistory: FrequencyChange[]; // Oldest first, one entry per frequency/mode change
+  comments: SpotComment[];            // Newest first
+}
+
+/**
+ * Key identifying an activation (activator + park reference)
+ * Portable prefixes/suffixes are ignored so W1ABC and W1ABC/P group together
+ */
+export const getActivationKey = (spot: SpotWithUserData): string =>
+  `${getBaseCallsign(spot.activator)}|${spot.reference.trim().toUpperCase()}`;
+
+const getSpotTimeMs = (spot: SpotWithUserData): number => {
+  const time = new Date(spot.spotTime).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+/**
+ * Build the frequency/mode change history for a set of spots
+ */
+export const buildFrequencyHistory = (spots: SpotWithUserData[]): FrequencyChange[] => {
+  const history: FrequencyChange[] = [];
+
+  [...spots]
+    .sort((a, b) => getSpotTimeMs(a) - getSpotTimeMs(b))
+    .forEach(spot => {
+      const previous = history[history.length - 1];
+      if (
+        !previous ||
+        previous.frequency !== spot.frequency ||
+        previous.mode.toUpperCase() !== spot.mode.toUpperCase()
+      ) {
+        history.push({ frequency: spot.frequency, mode: spot.mode, spotTime: spot.spotTime });
+      }
+    });
+
+  return history;
+};
+
+/**
+ * Group spots by activation
+ * Groups keep the order in which their first spot appears in the input
+ */
+export const groupSpotsByActivation = (spots: SpotWithUserData[]): ActivationGroup[] => {
+  const spotsByKey = new Map<string, SpotWithUserData[]>();
+
+  spots.forEach(spot => {
+    const key = getActivationKey(spot);
+    const existing = spotsByKey.get(key);
+    if (existing) {
+      existing.push(spot);
+    } else {
+      spotsByKey.set(key, [spot]);
+    }
+  });
+
+  return Array.from(spotsByKey.entries()).map(([key, groupSpots]) => {
+    const newestFirst = [...groupSpots].sort((a, b) => getSpotTimeMs(b) - getSpotTimeMs(a));
+    const latest = newestFirst[0];
+
+    const comments: SpotComment[] = newestFirst
+      .filter(spot => (spot.comments || '').trim())
+      .map(spot => ({
+        spotId: spot.spotId,
+        spotter: spot.spotter,
+        comments: (spot.comments || '').trim(),
+        spotTime: spot.spotTime,
+      }));
+
+    return {
+      key,
+      activator: latest.activator,
+      reference: latest.reference,
+      latest,
+      spots: newestFirst,
+      count: Math.max(1, ...groupSpots.map(spot => spot.count || 0)),
+      frequencyHistory: buildFrequencyHistory(groupSpots),
+      comments,
+    };
+  });
+};
@@ -0,0 +1,59 @@
+import { SpotWithUserData } from '../types/spot';
+
+// Longest delay between polls while the API keeps failing
+export const MAX_POLL_BACKOFF_MS = 10 * 60 * 1000;
+
+/**
+ * Merge a fresh poll into the current spot list
+ *
+ * - Spots are matched by spotId
+ * - New spots are placed at the top (in API order), existing spots keep their position
+ * - Spots that are no longer in the feed are dropped
+ * - New spots and spots whose frequency or mode changed are marked via updateStatus
+ *   (nothing is marked when there was no previous poll)
+ */
+export const mergeSpots = (
+  previous: SpotWithUserData[],
+  incoming: SpotWithUserData[]
+): SpotWithUserData[] => {
+  if (previous.length === 0) {
+    return incoming.map(spot => ({ ...spot, updateStatus: undefined }));
+  }
+
+  const previousById = new Map(previous.map(spot => [spot.spotId, spot]));
+  const incomingById = new Map(incoming.map(spot => [spot.spotId, spot]));
+
+  const added: SpotWithUserData[] = incoming
+    .filter(spot => !previousById.has(spot.spotId))
+    .map(spot => ({ ...spot, updateStatus: 'new' }));
+
+  const kept: SpotWithUserData[] = [];
+  previous.forEach(oldSpot => {
+    const newSpot = incomingById.get(oldSpot.spotId);
+    if (!newSpot) {
+      return;
+    }
+
+    const changed =
+      newSpot.frequency !== oldSpot.frequency ||
+      newSpot.mode.toUpperCase() !== oldSpot.mode.toUpperCase();
+
+    kept.push({
+      ...newSpot,
+      updateStatus: changed ? 'changed' : undefined,
+    });
+  });
+
+  return [...added, ...kept];
+};
+
+/**
+ * Get the delay before the next poll
+ * Doubles the interval for each consecutive API error, up to MAX_POLL_BACKOFF_MS
+ */
+export const getPollDelay = (intervalMs: number, consecutiveErrors: number): number => {
+  if (consecutiveErrors <= 0) {
+    return intervalMs;
+  }
+  return Math.min(intervalMs * Math.pow(2, consecutiveErrors), Math.max(intervalMs, MAX_POLL_BACKOFF_MS));
+};
@@ -0,0 +1,115 @@
+import { Spot, getBaseCallsign } from '../types/spot';
+
+/**
+ * Free-text spot search
+ *
+ * The query is split into terms and every term must match the spot.
+ * A term matches when it is the start of a word in the activator,
+ * park reference, park name, location, spotter or comments.
+ * Longer terms without digits also match words within a small edit
+ * distance, so "yelowstone" still finds Yellowstone. Callsigns and park
+ * numbers (anything with a digit) only match by prefix.
+ */
+
+// Terms at least this long are matched fuzzily
+const FUZZY_MIN_LENGTH = 4;
+
+// Terms at least this long allow two edits instead of one
+const FUZZY_TWO_EDIT_LENGTH = 8;
+
+/**
+ * Split a search query into upper-case terms
+ */
+export const parseSearchQuery = (query: string): string[] =>
+  query
+    .toUpperCase()
+    .split(/[\s,]+/)
+    .filter(Boolean);
+
+// Edit distance between two strings, giving up once it exceeds max
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Words a term can match, e.g. "W1ABC/P" -> W1ABC/P, W1ABC, P
+const getSearchWords = (spot: Spot): string[] => {
+  const words = new Set<string>();
+
+  const addWord = (word: string) => {
+    if (!word) {
+      return;
+    }
+    words.add(word);
+    // Also match the pieces of references, locations and portable calls
+    word.split(/[-/.]/).forEach(part => part && words.add(part));
+  };
+
+  const activator = spot.activator.toUpperCase();
+  addWord(activator);
+  addWord(getBaseCallsign(activator));
+
+  const reference = spot.reference.toUpperCase();
+  addWord(reference);
+  addWord(reference.replace(/-/g, ''));  // "US0001" finds US-0001
+
+  [spot.name, spot.locationDesc, spot.spotter, spot.comments].forEach(field => {
+    (field || '')
+      .toUpperCase()
+      .split(/[\s,;:()'"!?]+/)
+      .forEach(addWord);
+  });
+
+  return Array.from(words);
+};
+
+// Whether a term is the start of a word, or close to it
+const matchesWord = (term: string, word: string): boolean => {
+  if (word.startsWith(term)) {
+    return true;
+  }
+  if (term.length < FUZZY_MIN_LENGTH || /\d/.test(term)) {
+    return false;
+  }
+
+  const maxEdits = term.length >= FUZZY_TWO_EDIT_LENGTH ? 2 : 1;
+  // Compare against the whole word and its prefixes around the term's length,
+  // so a misspelt prefix ("yelow") matches a longer word ("yellowstone")
+  for (let length = term.length - maxEdits; length <= term.length + maxEdits; length++) {
+    if (length > 0 && length <= word.length &&
+        editDistance(term, word.slice(0, length), maxEdits) <= maxEdits) {
+      return true;
+    }
+  }
+  return editDistance(term, word, maxEdits) <= maxEdits;
+};
+
+/**
+ * Check a spot against a search query (empty queries match everything)
+ */
+export const matchesSpotSearch = (spot: Spot, query: string): boolean => {
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0) {
+    return true;
+  }
+
+  const words = getSearchWords(spot);
+  return terms.every(term => words.some(word => matchesWord(term, word)));
+};
@@ -0,0 +1,118 @@
+import { NeededStatus, SpotWithUserData, getBand, getBaseCallsign } from '../types/spot';
+import { SpotPath } from './geodesyService';
+
+/**
+ * Spot list ordering
+ *
+ * Every sort falls back to a fixed chain of tie-breakers (activator,
+ * park, then spot ID) so spots with equal keys keep the same order
+ * between polls instead of jumping around.
+ */
+
+export type SpotSortMode =
+  | 'newest'
+  | 'frequency'
+  | 'band'
+  | 'park'
+  | 'activator'
+  | 'count'
+  | 'distance'
+  | 'needed';
+
+export const SPOT_SORT_LABELS: Record<SpotSortMode, string> = {
+  newest: 'Newest',
+  frequency: 'Frequency',
+  band: 'Band',
+  park: 'Park',
+  activator: 'Activator',
+  count: 'Most Spotted',
+  distance: 'Nearest',
+  needed: 'Needed First',
+};
+
+export const DEFAULT_SPOT_SORT_MODE: SpotSortMode = 'newest';
+
+// Low to high
+const BAND_ORDER = ['160m', '80m', '60m', '40m', '30m', '20m', '17m', '15m', '12m', '10m', '6m', '2m', '70cm'];
+
+const NEEDED_ORDER: Record<NeededStatus, number> = {
+  'new-park': 0,
+  'new-band': 1,
+  'new-mode': 2,
+  'worked': 3,
+};
+
+export interface SpotSortContext {
+  paths?: Map<number, SpotPath | null>;  // Distance from my location, by spotId
+  huntedSpotIds?: Set<number>;           // Spots already logged this session
+}
+
+type Comparator = (a: SpotWithUserData, b: SpotWithUserData) => number;
+
+const collator = new Intl.Collator('en', { numeric: true, sensitivity: 'base' });
+
+const getSpotTimeMs = (spot: SpotWithUserData): number => {
+  const time = new Date(spot.spotTime).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+const getBandIndex = (spot: SpotWithUserData): number => {
+  const index = BAND_ORDER.indexOf(getBand(spot.frequency));
+  return index === -1 ? BAND_ORDER.length : index;
+};
+
+const byNewest: Comparator = (a, b) => getSpotTimeMs(b) - getSpotTimeMs(a);
+
+const byFrequency: Comparator = (a, b) =>
+  (parseFloat(a.frequency) || 0) - (parseFloat(b.frequency) || 0);
+
+// Fixed tie-breakers so equal spots keep a stable order
+const byIdentity: Comparator = (a, b) =>
+  collator.compare(getBaseCallsign(a.activator), getBaseCallsign(b.activator)) ||
+  collator.compare(a.reference, b.reference) ||
+  a.spotId - b.spotId;
+
+const getComparator = (mode: SpotSortMode, context: SpotSortContext): Comparator => {
+  switch (mode) {
+    case 'frequency':
+      return byFrequency;
+    case 'band':
+      return (a, b) => getBandIndex(a) - getBandIndex(b) || byNewest(a, b);
+    case 'park':
+      return (a, b) => collator.compare(a.reference, b.reference);
+    case 'activator':
+      return (a, b) => collator.compare(getBaseCallsign(a.activator), getBaseCallsign(b.activator));
+    case 'count':
+      return (a, b) => b.count - a.count || byNewest(a, b);
+    case 'distance': {
+      // Spots without a location go last
+      const distanceOf = (spot: SpotWithUserData) =>
+        context.paths?.get(spot.spotId)?.distanceKm ?? Number.POSITIVE_INFINITY;
+      return (a, b) => {
+        const da = distanceOf(a);
+        const db = distanceOf(b);
+        return da === db ? 0 : da < db ? -1 : 1;
+      };
+    }
+    case 'needed': {
+      const neededOf = (spot: SpotWithUserData) =>
+        context.huntedSpotIds?.has(spot.spotId) ? NEEDED_ORDER.worked : NEEDED_ORDER[spot.neededStatus];
+      return (a, b) => neededOf(a) - neededOf(b) || byNewest(a, b);
+    }
+    case 'newest':
+    default:
+      return byNewest;
+  }
+};
+
+/**
+ * Sort spots by the given mode (returns a new array)
+ */
+export const sortSpots = (
+  spots: SpotWithUserData[],
+  mode: SpotSortMode,
+  context: SpotSortContext = {}
+): SpotWithUserData[] => {
+  const compare = getComparator(mode, context);
+  return [...spots].sort((a, b) => compare(a, b) || byIdentity(a, b));
+};
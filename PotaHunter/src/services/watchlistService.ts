@@ -0,0 +1,348 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+import {
+  getBaseCallsign,
+  isValidCallsign,
+  isValidParkReference,
+  normalizeParkReference,
+} from '../types/spot';
+import { AlertRule } from './alertService';
+
+const WATCHLIST_KEY = '@pota_hunter:watchlist';
+
+/**
+ * Starred activators and favorite parks
+ *
+ * Activators are stored as base callsigns so W1ABC/P and VE3/W1ABC
+ * both match a watched W1ABC.
+ */
+export interface Watchlist {
+  activators: string[];  // Base callsigns (e.g. "W1ABC")
+  parks: string[];       // Park references (e.g. "US-0001")
+}
+
+// Result of importing a watchlist file
+export interface WatchlistImportResult {
+  success: boolean;
+  message: string;
+  added: number;
+  skipped: number;  // Already on the watchlist (or repeated in the file)
+  invalid: number;  // Not a callsign or park reference
+}
+
+const EMPTY_WATCHLIST: Watchlist = { activators: [], parks: [] };
+
+type WatchlistListener = (watchlist: Watchlist) => void;
+
+const listeners = new Set<WatchlistListener>();
+
+/**
+ * Subscribe to watchlist changes (star, unstar, import)
+ * Returns an unsubscribe function
+ */
+export const subscribeToWatchlist = (listener: WatchlistListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyListeners = (watchlist: Watchlist) => {
+  listeners.forEach(listener => {
+    try {
+      listener(watchlist);
+    } catch (error) {
+      console.error('Error in watchlist listener:', error);
+    }
+  });
+};
+
+const saveWatchlist = async (watchlist: Watchlist): Promise<void> => {
+  await AsyncStorage.setItem(WATCHLIST_KEY, JSON.stringify(watchlist));
+  notifyListeners(watchlist);
+};
+
+/**
+ * Get the watchlist
+ */
+export const getWatchlist = async (): Promise<Watchlist> => {
+  try {
+    const data = await AsyncStorage.getItem(WATCHLIST_KEY);
+    if (!data) {
+      return EMPTY_WATCHLIST;
+    }
+    const parsed = JSON.parse(data) as Partial<Watchlist>;
+    return {
+      activators: parsed.activators ?? [],
+      parks: parsed.parks ?? [],
+    };
+  } catch (error) {
+    console.error('Error reading watchlist:', error);
+    return EMPTY_WATCHLIST;
+  }
+};
+
+/**
+ * Check whether an activator is watched (portable prefixes/suffixes ignored)
+ */
+export const isActivatorWatched = (watchlist: Watchlist, callsign: string): boolean =>
+  watchlist.activators.includes(getBaseCallsign(callsign));
+
+/**
+ * Check whether a park is a favorite
+ */
+export const isParkFavorite = (watchlist: Watchlist, reference: string): boolean =>
+  watchlist.parks.includes(normalizeParkReference(reference));
+
+/**
+ * Star or unstar an activator
+ */
+export const setActivatorWatched = async (callsign: string, watched: boolean): Promise<boolean> => {
+  try {
+    const base = getBaseCallsign(callsign);
+    if (!base) {
+      return false;
+    }
+
+    const watchlist = await getWatchlist();
+    const activators = watchlist.activators.filter(call => call !== base);
+    await saveWatchlist({
+      ...watchlist,
+      activators: watched ? [...activators, base] : activators,
+    });
+    return true;
+  } catch (error) {
+    console.error('Error updating watched activators:', error);
+    return false;
+  }
+};
+
+/**
+ * Add or remove a favorite park
+ */
+export const setParkFavorite = async (reference: string, favorite: boolean): Promise<boolean> => {
+  try {
+    const normalized = normalizeParkReference(reference);
+    if (!normalized) {
+      return false;
+    }
+
+    const watchlist = await getWatchlist();
+    const parks = watchlist.parks.filter(ref => ref !== normalized);
+    await saveWatchlist({
+      ...watchlist,
+      parks: favorite ? [...parks, normalized] : parks,
+    });
+    return true;
+  } catch (error) {
+    console.error('Error updating favorite parks:', error);
+    return false;
+  }
+};
+
+/**
+ * Alert rules that fire when a watched activator is spotted
+ */
+export const getWatchlistAlertRules = (watchlist: Watchlist): AlertRule[] =>
+  watchlist.activators.map(callsign => ({
+    id: `watch_${callsign}`,
+    name: `Watched: ${callsign}`,
+    enabled: true,
+    activator: callsign,
+  }));
+
+/**
+ * Serialize the watchlist for export
+ */
+export const formatWatchlistJSON = (watchlist: Watchlist): string =>
+  JSON.stringify({ activators: watchlist.activators, parks: watchlist.parks }, null, 2);
+
+/**
+ * Read callsigns and park references from an exported watchlist
+ *
+ * Accepts the JSON export, or CSV with one entry per line as either
+ * "activator,W1ABC" / "park,US-0001" or a bare callsign or reference.
+ * Entries are returned as found; invalid ones are dropped by the import.
+ */
+export const parseWatchlistFile = (text: string): Watchlist => {
+  const result: Watchlist = { activators: [], parks: [] };
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed) as Partial<Record<keyof Watchlist, unknown>>;
+    const toStrings = (value: unknown): string[] =>
+      Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+    result.activators = toStrings(parsed.activators);
+    result.parks = toStrings(parsed.parks);
+    return result;
+  }
+
+  trimmed.split(/\r?\n/).forEach(line => {
+    const fields = line.split(',').map(field => field.trim().replace(/^"|"$/g, ''));
+    const [first, second] = fields;
+    if (!first) {
+      return;
+    }
+
+    const type = first.toLowerCase();
+    if (second !== undefined && (type === 'activator' || type === 'callsign')) {
+      result.activators.push(second);
+    } else if (second !== undefined && type === 'park') {
+      result.parks.push(second);
+    } else if (type === 'type') {
+      // Header row
+    } else if (isValidParkReference(first)) {
+      result.parks.push(first);
+    } else {
+      result.activators.push(first);
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Merge watchlist file contents into the stored watchlist
+ */
+export const importWatchlistText = async (text: string): Promise<WatchlistImportResult> => {
+  try {
+    const entries = parseWatchlistFile(text);
+    const watchlist = await getWatchlist();
+    const activators = new Set(watchlist.activators);
+    const parks = new Set(watchlist.parks);
+    let added = 0;
+    let skipped = 0;
+    let invalid = 0;
+
+    entries.activators.forEach(callsign => {
+      if (!isValidCallsign(callsign)) {
+        invalid++;
+        return;
+      }
+      const base = getBaseCallsign(callsign);
+      if (activators.has(base)) {
+        skipped++;
+        return;
+      }
+      activators.add(base);
+      added++;
+    });
+
+    entries.parks.forEach(reference => {
+      const normalized = normalizeParkReference(reference);
+      if (!isValidParkReference(normalized)) {
+        invalid++;
+        return;
+      }
+      if (parks.has(normalized)) {
+        skipped++;
+        return;
+      }
+      parks.add(normalized);
+      added++;
+    });
+
+    if (added > 0) {
+      await saveWatchlist({ activators: Array.from(activators), parks: Array.from(parks) });
+    }
+
+    const details = [
+      skipped > 0 ? `${skipped} already on the watchlist` : '',
+      invalid > 0 ? `${invalid} not recognized` : '',
+    ].filter(Boolean);
+
+    return {
+      success: true,
+      message: `Added ${added} entr${added === 1 ? 'y' : 'ies'}${details.length > 0 ? ` (${details.join(', ')})` : ''}`,
+      added,
+      skipped,
+      invalid,
+    };
+  } catch (error) {
+    console.error('Error importing watchlist:', error);
+    return {
+      success: false,
+      message: `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      added: 0,
+      skipped: 0,
+      invalid: 0,
+    };
+  }
+};
+
+/**
+ * Pick a watchlist file (JSON or CSV) and merge it into the watchlist
+ * Returns null if the user cancels the picker
+ */
+export const importWatchlist = async (): Promise<WatchlistImportResult | null> => {
+  try {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: '*/*',
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+
+    const text = await FileSystem.readAsStringAsync(result.assets[0].uri, {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+
+    return importWatchlistText(text);
+  } catch (error) {
+    console.error('Error reading watchlist file:', error);
+    return {
+      success: false,
+      message: `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      added: 0,
+      skipped: 0,
+      invalid: 0,
+    };
+  }
+};
+
+/**
+ * Export the watchlist as a JSON file and share it
+ */
+export const exportWatchlist = async (): Promise<{ success: boolean; message: string }> => {
+  try {
+    const watchlist = await getWatchlist();
+    if (watchlist.activators.length === 0 && watchlist.parks.length === 0) {
+      return { success: false, message: 'The watchlist is empty' };
+    }
+
+    const fileName = `pota_watchlist_${new Date().toISOString().split('T')[0]}.json`;
+    const filePath = `${FileSystem.documentDirectory}${fileName}`;
+
+    await FileSystem.writeAsStringAsync(filePath, formatWatchlistJSON(watchlist), {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(filePath, {
+        mimeType: 'application/json',
+        dialogTitle: 'Export Watchlist',
+        UTI: 'public.json',
+      });
+
+      return {
+        success: true,
+        message: `Exported ${watchlist.activators.length} activators and ${watchlist.parks.length} parks to ${fileName}`,
+      };
+    } else {
+      return {
+        success: false,
+        message: 'Sharing is not available on this device',
+      };
+    }
+  } catch (error) {
+    console.error('Error exporting watchlist:', error);
+    return {
+      success: false,
+      message: `Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+};
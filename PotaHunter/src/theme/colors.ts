@@ -19,8 +19,44 @@ export interface ColorScheme {
   error: string;
   hunted: string;      // Color for hunted parks indicator
   notHunted: string;   // Color for not-yet-hunted parks
+  statusBarStyle: 'light-content' | 'dark-content';  // Status bar icons over the primary header
+  bandColors: Record<string, string>;  // Map marker colors by band
 }
 
+// Map marker colors by band, shared by the light and dark themes
+const bandColors: Record<string, string> = {
+  '160m': '#7CFC00',
+  '80m': '#E550E5',
+  '60m': '#00008B',
+  '40m': '#5959FF',
+  '30m': '#62D962',
+  '20m': '#F2C40C',
+  '17m': '#F2F261',
+  '15m': '#CCA166',
+  '12m': '#B22222',
+  '10m': '#FF69B4',
+  '6m': '#FF0000',
+  '2m': '#FF1493',
+  '70cm': '#999900',
+};
+
+// Shades of red for the night theme's map markers
+const nightBandColors: Record<string, string> = {
+  '160m': '#FF8A80',
+  '80m': '#FF5252',
+  '60m': '#8B0000',
+  '40m': '#D50000',
+  '30m': '#FF6E6E',
+  '20m': '#E53935',
+  '17m': '#FF3B3B',
+  '15m': '#B71C1C',
+  '12m': '#C62828',
+  '10m': '#EF5350',
+  '6m': '#FF1744',
+  '2m': '#A31515',
+  '70cm': '#E57373',
+};
+
 export const orangeTheme: ColorScheme = {
   name: 'Orange',
   primary: '#F57C00',
@@ -39,6 +75,8 @@ export const orangeTheme: ColorScheme = {
   error: '#F44336',
   hunted: '#4CAF50',
   notHunted: '#BDBDBD',
+  statusBarStyle: 'light-content',
+  bandColors,
 };
 
 export const blueTheme: ColorScheme = {
@@ -59,6 +97,8 @@ export const blueTheme: ColorScheme = {
   error: '#F44336',
   hunted: '#4CAF50',
   notHunted: '#BDBDBD',
+  statusBarStyle: 'light-content',
+  bandColors,
 };
 
 export const greenTheme: ColorScheme = {
@@ -79,6 +119,8 @@ export const greenTheme: ColorScheme = {
   error: '#F44336',
   hunted: '#1976D2',
   notHunted: '#BDBDBD',
+  statusBarStyle: 'light-content',
+  bandColors,
 };
 
 export const purpleTheme: ColorScheme = {
@@ -99,13 +141,12 @@ export const purpleTheme: ColorScheme = {
   error: '#F44336',
   hunted: '#4CAF50',
   notHunted: '#BDBDBD',
+  statusBarStyle: 'light-content',
+  bandColors,
 };
 
-export const darkTheme: ColorScheme = {
-  name: 'Dark',
-  primary: '#FF9800',
-  primaryLight: '#FFB74D',
-  primaryDark: '#F57C00',
+// Dark variants share one palette and keep each theme's accent
+const darkBase = {
   secondary: '#78909C',
   background: '#121212',
   surface: '#1E1E1E',
@@ -119,14 +160,91 @@ export const darkTheme: ColorScheme = {
   error: '#EF5350',
   hunted: '#66BB6A',
   notHunted: '#616161',
+  statusBarStyle: 'dark-content' as const,
+  bandColors,
+};
+
+export const orangeDarkTheme: ColorScheme = {
+  ...darkBase,
+  name: 'Orange Dark',
+  primary: '#FF9800',
+  primaryLight: '#FFB74D',
+  primaryDark: '#F57C00',
 };
 
+export const blueDarkTheme: ColorScheme = {
+  ...darkBase,
+  name: 'Blue Dark',
+  primary: '#42A5F5',
+  primaryLight: '#90CAF9',
+  primaryDark: '#1E88E5',
+};
+
+export const greenDarkTheme: ColorScheme = {
+  ...darkBase,
+  name: 'Green Dark',
+  primary: '#66BB6A',
+  primaryLight: '#A5D6A7',
+  primaryDark: '#43A047',
+  hunted: '#42A5F5',
+};
+
+export const purpleDarkTheme: ColorScheme = {
+  ...darkBase,
+  name: 'Purple Dark',
+  primary: '#BA68C8',
+  primaryLight: '#E1BEE7',
+  primaryDark: '#8E24AA',
+};
+
+// High-contrast red on black to keep night vision while operating after dark
+export const nightTheme: ColorScheme = {
+  name: 'Night',
+  primary: '#5C0000',
+  primaryLight: '#8B0000',
+  primaryDark: '#3D0000',
+  secondary: '#B71C1C',
+  background: '#000000',
+  surface: '#0D0000',
+  surfaceVariant: '#1A0000',
+  text: '#FF3B3B',
+  textSecondary: '#B32424',
+  textOnPrimary: '#FF3B3B',
+  border: '#4D0000',
+  success: '#FF6E6E',
+  warning: '#FF5252',
+  error: '#FF1744',
+  hunted: '#FF6E6E',
+  notHunted: '#5C1A1A',
+  statusBarStyle: 'light-content',
+  bandColors: nightBandColors,
+};
+
+// Light/dark/system appearance; the night theme ignores it
+export type ThemeMode = 'light' | 'dark' | 'auto';
+
 export const themes: Record<string, ColorScheme> = {
   orange: orangeTheme,
   blue: blueTheme,
   green: greenTheme,
   purple: purpleTheme,
-  dark: darkTheme,
+  night: nightTheme,
+};
+
+// Dark variant of each theme, by the same names as themes
+export const darkThemes: Record<string, ColorScheme> = {
+  orange: orangeDarkTheme,
+  blue: blueDarkTheme,
+  green: greenDarkTheme,
+  purple: purpleDarkTheme,
+  night: nightTheme,
 };
 
 export const defaultTheme = orangeTheme;
+
+/**
+ * Colors for a theme name, in its dark variant if dark is set
+ * Unknown names fall back to the default theme
+ */
+export const getColorScheme = (themeName: string, dark: boolean): ColorScheme =>
+  (dark ? darkThemes[themeName] : themes[themeName]) ?? (dark ? orangeDarkTheme : defaultTheme);
@@ -22,9 +22,23 @@ export interface Spot {
   invalid: boolean | null;
 }
 
+// Whether a spot's park/band/mode slot is still needed
+// - new-park: park has never been worked
+// - new-band: park has been worked, but never on this band
+// - new-mode: park has been worked on this band, but not in this mode category
+// - worked: this band/mode slot has already been worked at the park
+export type NeededStatus = 'new-park' | 'new-band' | 'new-mode' | 'worked';
+
+// How a spot changed since the previous poll
+// - new: spot was not in the previous poll
+// - changed: frequency or mode differs from the previous poll
+export type SpotUpdateStatus = 'new' | 'changed';
+
 // Extended spot with local user data
 export interface SpotWithUserData extends Spot {
   isHunted: boolean;  // Whether the user has hunted this park
+  neededStatus: NeededStatus;
+  updateStatus?: SpotUpdateStatus;
 }
 
 // Mode categories for filtering/display
@@ -51,6 +65,55 @@ export const getModeCategory = (mode: string): ModeCategory => {
   return 'Other';
 };
 
+// Helper to check a spot mode against a mode filter value (SSB, CW, FT8, ...)
+// SSB matches USB and LSB as well
+export const matchesModeFilter = (mode: string, filterMode: string): boolean => {
+  const spotMode = mode.toUpperCase();
+  const upperFilter = filterMode.toUpperCase();
+
+  if (upperFilter === 'SSB') {
+    return spotMode.includes('SSB') || spotMode === 'USB' || spotMode === 'LSB';
+  }
+  return spotMode.includes(upperFilter);
+};
+
+// Helper to normalize a park reference for comparison (e.g. " us-0001 " -> "US-0001")
+export const normalizeParkReference = (reference: string): string =>
+  reference.trim().toUpperCase();
+
+// Helper to check that a park reference looks valid (e.g. US-0001, VE-1234)
+export const isValidParkReference = (reference: string): boolean =>
+  /^[A-Z0-9]{1,4}-\d{4,5}$/.test(normalizeParkReference(reference));
+
+// Helper to split a park reference list (e.g. "US-0001, US-0002") into normalized references
+// Location suffixes used by some loggers (e.g. "US-0001@US-ME") are dropped
+export const parseParkReferences = (references: string): string[] =>
+  references
+    .split(/[,\s]+/)
+    .map(ref => normalizeParkReference(ref.split('@')[0]))
+    .filter(Boolean);
+
+// Helper to normalize a list of park references for storage (e.g. "us-0001 , US-0002" -> "US-0001,US-0002")
+export const normalizeParkReferenceList = (references: string): string =>
+  Array.from(new Set(parseParkReferences(references))).join(',');
+
+// Helper to strip portable prefixes/suffixes from a callsign (e.g. VE3/W1ABC/P -> W1ABC)
+// The longest segment is taken to be the base callsign
+export const getBaseCallsign = (callsign: string): string => {
+  const parts = callsign.trim().toUpperCase().split('/').filter(Boolean);
+  if (parts.length === 0) return '';
+  return parts.reduce((longest, part) => (part.length > longest.length ? part : longest));
+};
+
+// Helper to check that a callsign looks valid (e.g. W1ABC, VE3/W1ABC/P)
+// The base callsign needs at least one letter and one digit
+export const isValidCallsign = (callsign: string): boolean => {
+  const trimmed = callsign.trim().toUpperCase();
+  if (!/^[A-Z0-9/]{3,}$/.test(trimmed)) return false;
+  const base = getBaseCallsign(trimmed);
+  return base.length >= 3 && /[A-Z]/.test(base) && /\d/.test(base);
+};
+
 // Helper to format frequency for display
 export const formatFrequency = (freq: string): string => {
   const numFreq = parseFloat(freq);